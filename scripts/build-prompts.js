@@ -15,20 +15,28 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-async function getAvailableTechnologies() {
+async function listMarkdownNames(dir) {
   try {
-    const files = await fs.readdir(PROMPTS_DIR);
+    const files = await fs.readdir(dir);
     return files
       .filter(file => file.endsWith('.md') && file !== 'README.md')
       .map(file => file.replace('.md', ''))
       .sort();
   } catch (error) {
-    console.warn('⚠️  Could not read prompts directory, using empty list');
+    console.warn(`⚠️  Could not read ${path.relative(process.cwd(), dir)} directory, using empty list`);
     return [];
   }
 }
 
+async function getAvailableTechnologies() {
+  return listMarkdownNames(PROMPTS_DIR);
+}
+
 const PROMPTS_DIR = path.join(__dirname, '..', 'prompts');
+// Vendor SDK to OpenFeature migration guides, one per vendor
+const MIGRATIONS_DIR = path.join(PROMPTS_DIR, 'migrations');
+// Feature guides (hooks, domains, testing, ...), one per topic
+const GUIDES_DIR = path.join(PROMPTS_DIR, 'guides');
 const OUTPUT_FILE = path.join(__dirname, '..', 'src', 'tools', 'promptsBundle.generated.ts');
 
 async function readPromptFile(technology) {
@@ -44,6 +52,16 @@ async function readPromptFile(technology) {
   }
 }
 
+async function readPromptDirectory(dir) {
+  const label = path.basename(dir);
+  const contents = {};
+  for (const name of await listMarkdownNames(dir)) {
+    contents[name] = await fs.readFile(path.join(dir, `${name}.md`), 'utf-8');
+    console.log(`✅ ${label}/${name}: Bundled`);
+  }
+  return contents;
+}
+
 async function buildPromptsBundle() {
   console.log('🔨 Building prompts bundle...');
   
@@ -60,6 +78,9 @@ async function buildPromptsBundle() {
     }
   }
   
+  const migrations = await readPromptDirectory(MIGRATIONS_DIR);
+  const guides = await readPromptDirectory(GUIDES_DIR);
+
   // Generate TypeScript file
   const technologyKeys = Object.keys(prompts);
   const tsContent = `// AUTO-GENERATED FILE - Do not edit manually
@@ -79,6 +100,32 @@ ${Object.entries(prompts)
   .map(([technology, content]) => `  "${technology}": ${JSON.stringify(content)},`)
   .join('\n')}
 };
+
+export const MIGRATION_VENDORS = [
+${Object.keys(migrations).map(key => `    '${key}',`).join('\n')}
+] as const;
+
+export const MigrationVendorSchema = z.enum(MIGRATION_VENDORS);
+export type MigrationVendor = z.infer<typeof MigrationVendorSchema>;
+
+export const MIGRATION_GUIDES: Record<MigrationVendor, string> = {
+${Object.entries(migrations)
+  .map(([vendor, content]) => `  "${vendor}": ${JSON.stringify(content)},`)
+  .join('\n')}
+};
+
+export const GUIDE_TOPICS = [
+${Object.keys(guides).map(key => `    '${key}',`).join('\n')}
+] as const;
+
+export const GuideTopicSchema = z.enum(GUIDE_TOPICS);
+export type GuideTopic = z.infer<typeof GuideTopicSchema>;
+
+export const FEATURE_GUIDES: Record<GuideTopic, string> = {
+${Object.entries(guides)
+  .map(([topic, content]) => `  "${topic}": ${JSON.stringify(content)},`)
+  .join('\n')}
+};
 `;
 
   await fs.writeFile(OUTPUT_FILE, tsContent, 'utf-8');
@@ -86,6 +133,8 @@ ${Object.entries(prompts)
   console.log('\n📊 Bundle Summary:');
   console.log(`   ✅ Bundled: ${loadedCount}`);
   console.log(`   📁 Available technologies: ${availableTechnologies.length}`);
+  console.log(`   🔀 Migration guides: ${Object.keys(migrations).length}`);
+  console.log(`   📚 Feature guides: ${Object.keys(guides).length}`);
   console.log(`   📄 Output: ${path.relative(process.cwd(), OUTPUT_FILE)}`);
   
   if (loadedCount > 0) {
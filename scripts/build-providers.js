@@ -68,16 +68,70 @@ async function fetchRemoteProviderFile(downloadUrl) {
 
 // No local directory fallback; always fetch from GitHub
 
-// Extract per-technology docs strictly from technologies[].href using TypeScript AST
-function extractDocsUrlByTech(fileContent) {
+// Curated tags: the openfeature.dev dataset has no equivalent, so they are
+// maintained here by hand. `ofrep` marks providers that can talk to an OFREP
+// endpoint; `hosted` a SaaS offering; `open-source` an open-source flag
+// management system. Providers missing from this table are bundled without
+// tags, and the build warns about them so they can be tagged here.
+const PROVIDER_TAGS = {
+  'cloudbees': ['hosted'],
+  'configcat': ['hosted'],
+  'devcycle': ['hosted', 'ofrep'],
+  'flagd': ['open-source', 'ofrep'],
+  'flagsmith': ['hosted', 'open-source'],
+  'flipt': ['open-source', 'ofrep'],
+  'go-feature-flag': ['open-source', 'ofrep'],
+  'growthbook': ['hosted', 'open-source'],
+  'launchdarkly': ['hosted'],
+  'ofrep': ['ofrep'],
+  'split': ['hosted'],
+  'statsig': ['hosted'],
+  'unleash': ['hosted', 'open-source'],
+};
+
+// Package registries linked from the dataset, and how to install from them
+const PACKAGE_REGISTRIES = [
+  { pattern: /^https?:\/\/(?:www\.)?npmjs\.com\/package\/((?:@[^/]+\/)?[^/?#]+)/, ecosystem: 'npm', install: name => `npm install ${name}` },
+  { pattern: /^https?:\/\/pypi\.org\/project\/([^/?#]+)/, ecosystem: 'pypi', install: name => `pip install ${name}` },
+  { pattern: /^https?:\/\/pkg\.go\.dev\/([^?#]+?)\/?(?:[?#]|$)/, ecosystem: 'go', install: name => `go get ${name}` },
+  { pattern: /^https?:\/\/(?:www\.)?nuget\.org\/packages\/([^/?#]+)/, ecosystem: 'nuget', install: name => `dotnet add package ${name}` },
+  { pattern: /^https?:\/\/(?:central\.sonatype\.com|mvnrepository\.com|search\.maven\.org)\/artifact\/([^/?#]+)\/([^/?#]+)/, ecosystem: 'maven' },
+  { pattern: /^https?:\/\/rubygems\.org\/gems\/([^/?#]+)/, ecosystem: 'rubygems', install: name => `gem install ${name}` },
+  { pattern: /^https?:\/\/packagist\.org\/packages\/([^/?#]+\/[^/?#]+)/, ecosystem: 'packagist', install: name => `composer require ${name}` },
+];
+
+// Derives package coordinates from a link to a package registry, if it is one
+function packageFromHref(href) {
+  for (const registry of PACKAGE_REGISTRIES) {
+    const match = registry.pattern.exec(href);
+    if (!match) continue;
+    const name = match.slice(1).map(decodeURIComponent).join(':');
+    return registry.install
+      ? { ecosystem: registry.ecosystem, name, install: registry.install(name) }
+      : { ecosystem: registry.ecosystem, name };
+  }
+  return null;
+}
+
+// Extract the provider name and its technology entries using the TypeScript AST.
+// Per-technology docs come strictly from technologies[].href.
+function extractProviderInfo(fileContent) {
   /** @type {Record<string, string>} */
   const byTech = {};
+  const technologies = [];
+  let vendor = null;
   const sf = ts.createSourceFile('provider.ts', fileContent, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
 
   function getStringLiteralValue(node) {
     return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) ? node.text : null;
   }
 
+  function getBooleanLiteralValue(node) {
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    return null;
+  }
+
   function asObjectLiteral(node) {
     return ts.isParenthesizedExpression(node) && ts.isObjectLiteralExpression(node.expression)
       ? node.expression
@@ -86,12 +140,12 @@ function extractDocsUrlByTech(fileContent) {
       : null;
   }
 
-  function findTechnologiesArray(obj) {
+  function findProperty(obj, name) {
     if (!obj) return null;
     for (const prop of obj.properties) {
       if (ts.isPropertyAssignment(prop)) {
         const nameText = ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name) ? prop.name.text.toLowerCase() : '';
-        if (nameText === 'technologies' && ts.isArrayLiteralExpression(prop.initializer)) {
+        if (nameText === name) {
           return prop.initializer;
         }
       }
@@ -99,6 +153,11 @@ function extractDocsUrlByTech(fileContent) {
     return null;
   }
 
+  function findTechnologiesArray(obj) {
+    const initializer = findProperty(obj, 'technologies');
+    return initializer && ts.isArrayLiteralExpression(initializer) ? initializer : null;
+  }
+
   function visit(node) {
     if (
       ts.isVariableStatement(node) &&
@@ -109,12 +168,16 @@ function extractDocsUrlByTech(fileContent) {
         if (!obj) continue;
         const techArr = findTechnologiesArray(obj);
         if (!techArr) continue;
-        
+
+        const nameNode = findProperty(obj, 'name');
+        vendor = vendor ?? (nameNode ? getStringLiteralValue(nameNode) : null);
+
         for (const el of techArr.elements) {
           if (!ts.isObjectLiteralExpression(el)) continue;
           let techName = null;
           let href = null;
           let category = null;
+          let vendorOfficial = false;
 
           for (const p of el.properties) {
             if (!ts.isPropertyAssignment(p)) continue;
@@ -123,6 +186,8 @@ function extractDocsUrlByTech(fileContent) {
               techName = getStringLiteralValue(p.initializer)?.toLowerCase();
             } else if (key === 'href') {
               href = getStringLiteralValue(p.initializer);
+            } else if (key === 'vendorofficial') {
+              vendorOfficial = getBooleanLiteralValue(p.initializer) ?? false;
             } else if (key === 'category' && ts.isArrayLiteralExpression(p.initializer)) {
               // Extract category array
               category = [];
@@ -143,10 +208,20 @@ function extractDocsUrlByTech(fileContent) {
             } else {
               technology = techToTechnologyMap[techName] || (ALLOWED_TECHNOLOGIES.includes(techName) ? techName : null);
             }
-            
+
             if (technology && !byTech[technology]) {
               byTech[technology] = href;
             }
+            if (technology) {
+              const pkg = packageFromHref(href);
+              technologies.push({
+                technology,
+                category: (category ?? []).map(c => c.toLowerCase()).filter(c => c === 'server' || c === 'client'),
+                vendorOfficial,
+                docsUrl: href,
+                ...(pkg ? { package: pkg } : {}),
+              });
+            }
           }
         }
       }
@@ -155,7 +230,7 @@ function extractDocsUrlByTech(fileContent) {
   }
 
   visit(sf);
-  return byTech;
+  return { vendor, docsUrlByTechnology: byTech, technologies };
 }
 
 async function buildProvidersBundle() {
@@ -176,18 +251,29 @@ async function buildProvidersBundle() {
       if (base === 'index') continue; // skip barrel files
       
       // Build per-technology docs from href entries only
-      const docsUrlByTechnology = extractDocsUrlByTech(content);
+      const { vendor, docsUrlByTechnology, technologies } = extractProviderInfo(content);
       if (Object.keys(docsUrlByTechnology).length === 0) {
         console.log(`⏭️  ${base}: Skipped (no docs URLs detected)`);
         continue;
       }
-      result.push({ name: base, docsUrlByTechnology });
+      result.push({
+        name: base,
+        docsUrlByTechnology,
+        info: { vendor: vendor ?? base, tags: PROVIDER_TAGS[base] ?? [], technologies },
+      });
       console.log(`✅ ${base}: Parsed (remote)`);
     }
   } catch (err) {
     console.warn('⚠️  Failed to fetch providers from GitHub:', err?.message || err);
   }
 
+  const untagged = result.map(r => r.name).filter(name => !(name in PROVIDER_TAGS));
+  if (untagged.length > 0) {
+    console.warn(
+      `⚠️  No tags for ${untagged.join(', ')}; add them to PROVIDER_TAGS in scripts/build-providers.js (or [] if none apply).`
+    );
+  }
+
   // Generate TypeScript file
   const providerNames = result.map(r => r.name);
   const hasProviders = providerNames.length > 0;
@@ -195,6 +281,9 @@ async function buildProvidersBundle() {
   const supportEntries = result
     .map(r => `  '${r.name}': ${JSON.stringify(r.docsUrlByTechnology)} ,`)
     .join('\n');
+  const catalogEntries = result
+    .map(r => `  '${r.name}': ${JSON.stringify(r.info)} ,`)
+    .join('\n');
 
   const tsContent = `// AUTO-GENERATED FILE - Do not edit manually
 // Generated by scripts/build-providers.js
@@ -214,6 +303,33 @@ export const providersSchema = z.array(providerSchema).default([]);
 export const PROVIDER_DOCS: Record<ProviderName${hasProviders ? '' : ' | string'}, Partial<Record<InstallTechnology, string>>> = {
 ${supportEntries}
 };
+
+export type ProviderCategory = 'server' | 'client';
+export type ProviderTag = 'ofrep' | 'hosted' | 'open-source';
+
+export type ProviderPackage = {
+  ecosystem: string;
+  name: string;
+  install?: string;
+};
+
+export type ProviderTechnology = {
+  technology: InstallTechnology;
+  category: ProviderCategory[];
+  vendorOfficial: boolean;
+  docsUrl: string;
+  package?: ProviderPackage;
+};
+
+export type ProviderInfo = {
+  vendor: string;
+  tags: ProviderTag[];
+  technologies: ProviderTechnology[];
+};
+
+export const PROVIDER_CATALOG: Record<ProviderName${hasProviders ? '' : ' | string'}, ProviderInfo> = {
+${catalogEntries}
+};
 `;
 
   await fs.writeFile(OUTPUT_FILE, tsContent, 'utf-8');
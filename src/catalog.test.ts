@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  findProviders,
+  getInstallPrompt,
+  getInstallTechnologies,
+  getProviderCatalog,
+  getProviderDocUrl,
+  getProviders,
+  installTechnologySchema,
+  loadCatalogs,
+  providerSchema,
+  resetCatalogs,
+} from "./catalog.js";
+import { renderInstallPrompt } from "./tools/installTools.js";
+import { INSTALL_TECHNOLOGIES } from "./tools/promptsBundle.generated.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("./fixtures/providers.json", import.meta.url)
+);
+
+describe("catalog", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-catalog-"));
+    delete process.env.OPENFEATURE_MCP_PROMPTS_PATH;
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  afterEach(async () => {
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROMPTS_PATH;
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should serve the bundled catalogs when nothing is configured", async () => {
+    expect(await loadCatalogs()).toEqual({ technologies: [], providers: [] });
+    expect(getInstallTechnologies()).toEqual([...INSTALL_TECHNOLOGIES].sort());
+  });
+
+  it("should merge custom guides and provider manifests", async () => {
+    await writeFile(join(dir, "elixir.md"), "# Elixir guide\n");
+    await writeFile(join(dir, "README.md"), "not a guide");
+    const manifest = join(dir, "providers.json");
+    await writeFile(
+      manifest,
+      JSON.stringify({
+        providers: {
+          "acme-flags": {
+            elixir: "https://docs.acme.dev/openfeature/elixir",
+            nodejs: "https://docs.acme.dev/openfeature/node",
+          },
+        },
+      })
+    );
+    process.env.OPENFEATURE_MCP_PROMPTS_PATH = dir;
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = manifest;
+
+    expect(await loadCatalogs()).toEqual({
+      technologies: ["elixir"],
+      providers: ["acme-flags"],
+    });
+    expect(getInstallTechnologies()).toContain("elixir");
+    expect(getInstallTechnologies()).not.toContain("README");
+    expect(getProviders()).toContain("acme-flags");
+    expect(installTechnologySchema().parse("elixir")).toBe("elixir");
+    expect(providerSchema().safeParse("unknown-provider").success).toBe(false);
+    expect(getProviderDocUrl("acme-flags", "nodejs")).toBe(
+      "https://docs.acme.dev/openfeature/node"
+    );
+    expect(renderInstallPrompt("elixir", ["acme-flags"])).toContain(
+      "https://docs.acme.dev/openfeature/elixir"
+    );
+  });
+
+  it("should let a custom guide replace a bundled one", async () => {
+    const [technology] = INSTALL_TECHNOLOGIES;
+    const guide = join(dir, `${technology}.md`);
+    await writeFile(guide, "# In-house guide\n");
+    process.env.OPENFEATURE_MCP_PROMPTS_PATH = ["/does/not/exist", guide].join(
+      delimiter
+    );
+
+    await expect(loadCatalogs()).rejects.toThrow(
+      "OPENFEATURE_MCP_PROMPTS_PATH entry '/does/not/exist' does not exist"
+    );
+
+    process.env.OPENFEATURE_MCP_PROMPTS_PATH = guide;
+    await loadCatalogs();
+    expect(getInstallPrompt(technology)).toBe("# In-house guide\n");
+  });
+
+  it("should reject invalid manifests without merging anything", async () => {
+    await writeFile(join(dir, "elixir.md"), "# Elixir guide\n");
+    const manifest = join(dir, "providers.json");
+    process.env.OPENFEATURE_MCP_PROMPTS_PATH = join(dir, "elixir.md");
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = manifest;
+
+    await writeFile(
+      manifest,
+      JSON.stringify({ providers: { "acme-flags": { nodejs: "not a url" } } })
+    );
+    await expect(loadCatalogs()).rejects.toThrow(
+      `Invalid provider manifest ${manifest}: providers.acme-flags.nodejs: Invalid url`
+    );
+
+    await writeFile(
+      manifest,
+      JSON.stringify({
+        providers: { "acme-flags": { cobol: "https://docs.acme.dev" } },
+      })
+    );
+    await expect(loadCatalogs()).rejects.toThrow(
+      "providers.acme-flags.cobol: unknown technology 'cobol'"
+    );
+
+    expect(getInstallTechnologies()).not.toContain("elixir");
+    expect(getProviders()).not.toContain("acme-flags");
+  });
+
+  it("should filter providers by technology, category and tags", async () => {
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+    const catalog = getProviderCatalog();
+    const technology = catalog[0].technologies[0].technology;
+
+    const ofrepClients = findProviders({ category: "client", tags: ["ofrep"] });
+    expect(ofrepClients.map((p) => p.name)).toEqual(
+      catalog
+        .filter(
+          (p) =>
+            p.tags.includes("ofrep") &&
+            p.technologies.some((t) => t.category.includes("client"))
+        )
+        .map((p) => p.name)
+    );
+    for (const provider of ofrepClients) {
+      for (const entry of provider.technologies) {
+        expect(entry.category).toContain("client");
+      }
+    }
+
+    const byTechnology = findProviders({
+      technology,
+      query: catalog[0].vendor,
+    });
+    expect(byTechnology[0].name).toBe(catalog[0].name);
+    expect(
+      byTechnology.flatMap((p) => p.technologies.map((t) => t.technology))
+    ).toEqual(expect.arrayContaining([technology]));
+    expect(
+      byTechnology.every((p) =>
+        p.technologies.every((t) => t.technology === technology)
+      )
+    ).toBe(true);
+  });
+
+  it("should list manifest providers without package metadata", async () => {
+    const manifest = join(dir, "providers.json");
+    await writeFile(
+      manifest,
+      JSON.stringify({
+        providers: { "acme-flags": { nodejs: "https://docs.acme.dev/node" } },
+      })
+    );
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = manifest;
+    await loadCatalogs();
+
+    expect(findProviders({ query: "ACME" })).toEqual([
+      {
+        name: "acme-flags",
+        vendor: "acme-flags",
+        tags: [],
+        technologies: [
+          {
+            technology: "nodejs",
+            category: [],
+            vendorOfficial: false,
+            docsUrl: "https://docs.acme.dev/node",
+          },
+        ],
+      },
+    ]);
+    expect(findProviders({ query: "acme", tags: ["hosted"] })).toEqual([]);
+  });
+});
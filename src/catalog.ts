@@ -0,0 +1,371 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, delimiter, extname, join } from "node:path";
+import { z } from "zod";
+import { logger } from "./logger.js";
+import { BUNDLED_PROMPTS } from "./tools/promptsBundle.generated.js";
+import {
+  PROVIDER_CATALOG,
+  PROVIDER_DOCS,
+  type ProviderCategory,
+  type ProviderInfo,
+  type ProviderTag,
+  type ProviderTechnology,
+} from "./tools/providersBundle.generated.js";
+
+/**
+ * Documentation URL per provider and technology, e.g.
+ * `{ "flagd": { "go": "https://..." } }`.
+ */
+export type ProviderDocs = Record<string, Record<string, string>>;
+
+export const CatalogNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9._-]*$/,
+    "Names must use lowercase letters, digits, '.', '_' or '-'"
+  );
+
+const ProviderManifestSchema = z
+  .object({
+    providers: z.record(
+      CatalogNameSchema,
+      z.record(CatalogNameSchema, z.string().url())
+    ),
+  })
+  .strict();
+
+export const PROVIDER_CATEGORIES = [
+  "server",
+  "client",
+] as const satisfies readonly ProviderCategory[];
+export const PROVIDER_TAGS = [
+  "ofrep",
+  "hosted",
+  "open-source",
+] as const satisfies readonly ProviderTag[];
+
+export type CatalogProviderTechnology = Omit<
+  ProviderTechnology,
+  "technology"
+> & { technology: string };
+
+export type CatalogProvider = Omit<ProviderInfo, "technologies"> & {
+  name: string;
+  technologies: CatalogProviderTechnology[];
+};
+
+export type ProviderFilter = {
+  technology?: string;
+  category?: ProviderCategory;
+  tags?: ProviderTag[];
+  vendorOfficial?: boolean;
+  query?: string;
+};
+
+export type CatalogLoadSummary = {
+  technologies: string[];
+  providers: string[];
+};
+
+function bundledProviderDocs(): ProviderDocs {
+  return Object.fromEntries(
+    Object.entries(PROVIDER_DOCS).map(([provider, byTechnology]) => [
+      provider,
+      Object.fromEntries(
+        Object.entries(byTechnology ?? {}).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      ),
+    ])
+  );
+}
+
+let prompts: Record<string, string> = { ...BUNDLED_PROMPTS };
+let providerDocs: ProviderDocs = bundledProviderDocs();
+
+export function getInstallTechnologies(): string[] {
+  return Object.keys(prompts).sort();
+}
+
+export function getProviders(): string[] {
+  return Object.keys(providerDocs).sort();
+}
+
+export function getInstallPrompt(technology: string): string | undefined {
+  return prompts[technology];
+}
+
+export function getProviderDocs(): Readonly<ProviderDocs> {
+  return providerDocs;
+}
+
+export function getProviderDocUrl(
+  provider: string,
+  technology: string
+): string | undefined {
+  return providerDocs[provider]?.[technology];
+}
+
+/**
+ * Returns the provider metadata from the bundled catalog. Documentation added
+ * or replaced by a provider manifest is listed without package or category
+ * details, which manifests do not carry.
+ */
+export function getProviderCatalog(): CatalogProvider[] {
+  const bundled = PROVIDER_CATALOG as Record<string, ProviderInfo | undefined>;
+  const bundledDocs = PROVIDER_DOCS as Record<
+    string,
+    Partial<Record<string, string>> | undefined
+  >;
+  return getProviders().map((name) => {
+    const info = bundled[name];
+    let technologies: CatalogProviderTechnology[] = [
+      ...(info?.technologies ?? []),
+    ];
+    for (const [technology, docsUrl] of Object.entries(providerDocs[name])) {
+      if (bundledDocs[name]?.[technology] === docsUrl) {
+        continue;
+      }
+      const known = technologies.find(
+        (entry) => entry.technology === technology
+      );
+      technologies = [
+        ...technologies.filter((entry) => entry.technology !== technology),
+        {
+          technology,
+          category: known?.category ?? [],
+          vendorOfficial: false,
+          docsUrl,
+        },
+      ];
+    }
+    return {
+      name,
+      vendor: info?.vendor ?? name,
+      tags: info?.tags ?? [],
+      technologies,
+    };
+  });
+}
+
+/**
+ * Filters the provider catalog. Provider-level filters (`tags`, `query`)
+ * select providers; technology-level filters keep only the matching
+ * technologies, and providers left without any are dropped.
+ */
+export function findProviders(filter: ProviderFilter): CatalogProvider[] {
+  const query = filter.query?.toLowerCase();
+  return getProviderCatalog()
+    .filter(
+      (provider) =>
+        (filter.tags ?? []).every((tag) => provider.tags.includes(tag)) &&
+        (!query ||
+          provider.name.toLowerCase().includes(query) ||
+          provider.vendor.toLowerCase().includes(query))
+    )
+    .map((provider) => ({
+      ...provider,
+      technologies: provider.technologies.filter(
+        (entry) =>
+          (!filter.technology || entry.technology === filter.technology) &&
+          (!filter.category || entry.category.includes(filter.category)) &&
+          (filter.vendorOfficial === undefined ||
+            entry.vendorOfficial === filter.vendorOfficial)
+      ),
+    }))
+    .filter((provider) => provider.technologies.length > 0);
+}
+
+function namesSchema(names: string[]): z.ZodType<string> {
+  return names.length > 0 ? z.enum(names as [string, ...string[]]) : z.string();
+}
+
+/**
+ * Validates a technology with an installation guide, bundled or loaded at
+ * startup. Custom catalogs are loaded after the tool modules are imported, so
+ * tool argument schemas that use this (or {@link providerSchema}) are built in
+ * a function called on registration rather than as module constants; a schema
+ * built at import time would only accept the bundled names.
+ */
+export function installTechnologySchema(): z.ZodType<string> {
+  return namesSchema(getInstallTechnologies());
+}
+
+/**
+ * Validates a provider name from the loaded catalog. Build it on registration,
+ * see {@link installTechnologySchema}.
+ */
+export function providerSchema(): z.ZodType<string> {
+  return namesSchema(getProviders());
+}
+
+/**
+ * A list of providers from the loaded catalog, empty by default. Build it on
+ * registration, see {@link installTechnologySchema}.
+ */
+export function providersSchema() {
+  return z.array(providerSchema()).default([]);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+function catalogPaths(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(delimiter)
+    .map((path) => path.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Expands a configured path into the files it names: the path itself, or the
+ * files with the given extension in a directory.
+ */
+async function catalogFiles(
+  variable: string,
+  path: string,
+  extension: string
+): Promise<string[]> {
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await stat(path)).isDirectory();
+  } catch {
+    throw new Error(`${variable} entry '${path}' does not exist`);
+  }
+  if (!isDirectory) {
+    if (extname(path) !== extension) {
+      throw new Error(
+        `${variable} entry '${path}' must be a directory or a ${extension} file`
+      );
+    }
+    return [path];
+  }
+  const entries = await readdir(path);
+  return entries
+    .filter((entry) => extname(entry) === extension && entry !== "README.md")
+    .sort()
+    .map((entry) => join(path, entry));
+}
+
+async function loadGuides(paths: string[]): Promise<Record<string, string>> {
+  const guides: Record<string, string> = {};
+  for (const path of paths) {
+    for (const file of await catalogFiles(
+      "OPENFEATURE_MCP_PROMPTS_PATH",
+      path,
+      ".md"
+    )) {
+      const technology = basename(file, ".md");
+      const name = CatalogNameSchema.safeParse(technology);
+      if (!name.success) {
+        throw new Error(
+          `Invalid install guide ${file}: the file name is the technology name. ${formatIssues(
+            name.error
+          )}`
+        );
+      }
+      const content = await readFile(file, { encoding: "utf-8" });
+      if (content.trim().length === 0) {
+        throw new Error(`Invalid install guide ${file}: the file is empty`);
+      }
+      guides[technology] = content;
+    }
+  }
+  return guides;
+}
+
+async function loadManifests(
+  paths: string[],
+  technologies: Set<string>
+): Promise<ProviderDocs> {
+  const docs: ProviderDocs = {};
+  for (const path of paths) {
+    for (const file of await catalogFiles(
+      "OPENFEATURE_MCP_PROVIDERS_PATH",
+      path,
+      ".json"
+    )) {
+      let json: unknown;
+      try {
+        json = JSON.parse(await readFile(file, { encoding: "utf-8" }));
+      } catch (err) {
+        throw new Error(
+          `Invalid provider manifest ${file}: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+      const manifest = ProviderManifestSchema.safeParse(json);
+      if (!manifest.success) {
+        throw new Error(
+          `Invalid provider manifest ${file}: ${formatIssues(manifest.error)}`
+        );
+      }
+      for (const [provider, byTechnology] of Object.entries(
+        manifest.data.providers
+      )) {
+        for (const technology of Object.keys(byTechnology)) {
+          if (!technologies.has(technology)) {
+            throw new Error(
+              `Invalid provider manifest ${file}: providers.${provider}.${technology}: unknown technology '${technology}'. ` +
+                `Known technologies: ${[...technologies].sort().join(", ")}`
+            );
+          }
+        }
+        docs[provider] = { ...docs[provider], ...byTechnology };
+      }
+    }
+  }
+  return docs;
+}
+
+/**
+ * Merges custom catalogs into the bundled ones, from the directories or files
+ * listed (separated like `PATH`) in:
+ * - OPENFEATURE_MCP_PROMPTS_PATH: `<technology>.md` installation guides, which
+ *   add technologies or replace a bundled guide
+ * - OPENFEATURE_MCP_PROVIDERS_PATH: JSON manifests of the form
+ *   `{ "providers": { "<provider>": { "<technology>": "<doc URL>" } } }`
+ *
+ * Call once at startup, before the server registers its tools and prompts.
+ * Nothing is merged if any catalog is invalid.
+ */
+export async function loadCatalogs(): Promise<CatalogLoadSummary> {
+  const guides = await loadGuides(catalogPaths("OPENFEATURE_MCP_PROMPTS_PATH"));
+  const nextPrompts = { ...prompts, ...guides };
+  const docs = await loadManifests(
+    catalogPaths("OPENFEATURE_MCP_PROVIDERS_PATH"),
+    new Set(Object.keys(nextPrompts))
+  );
+
+  const nextDocs = { ...providerDocs };
+  for (const [provider, byTechnology] of Object.entries(docs)) {
+    nextDocs[provider] = { ...nextDocs[provider], ...byTechnology };
+  }
+  prompts = nextPrompts;
+  providerDocs = nextDocs;
+
+  const summary = {
+    technologies: Object.keys(guides).sort(),
+    providers: Object.keys(docs).sort(),
+  };
+  if (summary.technologies.length > 0 || summary.providers.length > 0) {
+    logger.info("Loaded custom catalogs", summary);
+  }
+  return summary;
+}
+
+/**
+ * Restores the bundled catalogs, dropping anything loaded at runtime.
+ */
+export function resetCatalogs(): void {
+  prompts = { ...BUNDLED_PROMPTS };
+  providerDocs = bundledProviderDocs();
+}
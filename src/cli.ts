@@ -1,5 +1,131 @@
 #!/usr/bin/env node
+import { randomBytes } from "node:crypto";
+import { parseArgs } from "node:util";
 import { startServer } from "./server.js";
+import { startHttpServer } from "./httpServer.js";
+import { listenLocalOFREP, startLocalOFREPServer } from "./localOfrepServer.js";
+import { registerLocalEnvironment } from "./tools/ofrepConfig.js";
+import { prewarmProviderDocs } from "./docsCache.js";
+import { loadCatalogs } from "./catalog.js";
 
-// Ensure stdout is clean (no banner). All logs go to stderr via server.ts
-await startServer();
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    transport: {
+      type: "string",
+      default: process.env.OPENFEATURE_MCP_TRANSPORT ?? "stdio",
+    },
+    host: {
+      type: "string",
+      default: process.env.OPENFEATURE_MCP_HOST ?? "127.0.0.1",
+    },
+    port: {
+      type: "string",
+    },
+    flags: {
+      type: "string",
+    },
+    token: {
+      type: "string",
+    },
+    "allowed-hosts": {
+      type: "string",
+      default: process.env.OPENFEATURE_MCP_ALLOWED_HOSTS,
+    },
+    "allowed-origins": {
+      type: "string",
+      default: process.env.OPENFEATURE_MCP_ALLOWED_ORIGINS,
+    },
+    "local-flags": {
+      type: "string",
+      default: process.env.OPENFEATURE_MCP_LOCAL_FLAGS,
+    },
+  },
+});
+
+function parsePort(raw: string): number {
+  const port = Number.parseInt(raw, 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid --port '${raw}'. Expected 0-65535.`);
+    process.exit(1);
+  }
+  return port;
+}
+
+function parseList(raw: string | undefined): string[] | undefined {
+  const items = raw
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items?.length ? items : undefined;
+}
+
+const [command] = positionals;
+
+if (command === "ofrep-server") {
+  if (!values.flags) {
+    console.error("Missing --flags <file> for 'ofrep-server'.");
+    process.exit(1);
+  }
+  await startLocalOFREPServer({
+    flagsPath: values.flags,
+    host: values.host,
+    port: parsePort(values.port ?? "8016"),
+    token: values.token,
+  });
+} else if (command === "warm-docs") {
+  await loadCatalogs();
+  const summary = await prewarmProviderDocs();
+  const { fetched, unchanged, failed } = summary;
+  console.error(
+    `Cached ${fetched.length + unchanged.length} provider doc(s) in ${
+      summary.cacheDir
+    } (${fetched.length} updated, ${unchanged.length} unchanged, ${
+      failed.length
+    } failed)`
+  );
+  for (const failure of failed) {
+    console.error(`  ✗ ${failure.href}: ${failure.error}`);
+  }
+  process.exit(failed.length > 0 ? 1 : 0);
+} else if (command !== undefined) {
+  console.error(
+    `Unknown command '${command}'. Expected 'ofrep-server' or 'warm-docs'.`
+  );
+  process.exit(1);
+} else {
+  if (values["local-flags"]) {
+    // Serve the flag file in-process and make it the default OFREP environment
+    const token = randomBytes(16).toString("hex");
+    const local = await listenLocalOFREP({
+      flagsPath: values["local-flags"],
+      host: "127.0.0.1",
+      port: 0,
+      token,
+    });
+    registerLocalEnvironment({ baseUrl: local.url, bearerToken: token });
+    console.error(
+      `Serving local flags from ${values["local-flags"]} at ${local.url}`
+    );
+  }
+
+  if (values.transport === "http") {
+    await startHttpServer({
+      host: values.host,
+      port: parsePort(
+        values.port ?? process.env.OPENFEATURE_MCP_PORT ?? "3000"
+      ),
+      allowedHosts: parseList(values["allowed-hosts"]),
+      allowedOrigins: parseList(values["allowed-origins"]),
+      token: values.token ?? process.env.OPENFEATURE_MCP_TOKEN,
+    });
+  } else if (values.transport === "stdio") {
+    // Ensure stdout is clean (no banner). All logs go to stderr via server.ts
+    await startServer();
+  } else {
+    console.error(
+      `Unknown --transport '${values.transport}'. Expected 'stdio' or 'http'.`
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getProviderDoc, prewarmProviderDocs } from "./docsCache.js";
+import { PROVIDER_DOCS } from "./tools/providersBundle.generated.js";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const HREF = "https://docs.example.com/provider/nodejs";
+
+function htmlResponse(body: string, headers: Record<string, string> = {}) {
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "text/html; charset=utf-8", ...headers },
+  });
+}
+
+describe("docsCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-docs-"));
+    process.env.OPENFEATURE_MCP_DOCS_CACHE_DIR = dir;
+    delete process.env.OPENFEATURE_MCP_DOCS_CACHE_TTL_HOURS;
+    mockFetch.mockReset();
+  });
+
+  afterEach(async () => {
+    delete process.env.OPENFEATURE_MCP_DOCS_CACHE_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should download missing docs and serve them from disk afterwards", async () => {
+    mockFetch.mockResolvedValueOnce(htmlResponse("<h1>Install</h1>"));
+
+    const first = await getProviderDoc(HREF);
+    const second = await getProviderDoc(HREF);
+
+    expect(first).toMatchObject({
+      source: "network",
+      ageSeconds: 0,
+      doc: {
+        body: "<h1>Install</h1>",
+        contentType: "text/html; charset=utf-8",
+      },
+    });
+    expect(second.source).toBe("cache");
+    expect(second.doc.body).toBe("<h1>Install</h1>");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it("should serve stale docs while revalidating in the background", async () => {
+    mockFetch.mockResolvedValueOnce(htmlResponse("v1", { etag: '"a"' }));
+    await getProviderDoc(HREF);
+
+    process.env.OPENFEATURE_MCP_DOCS_CACHE_TTL_HOURS = "0";
+    mockFetch.mockResolvedValueOnce(htmlResponse("v2", { etag: '"b"' }));
+    const stale = await getProviderDoc(HREF);
+    expect(stale.source).toBe("stale");
+    expect(stale.doc.body).toBe("v1");
+    await stale.revalidating;
+
+    const [, init] = mockFetch.mock.calls[1];
+    expect(init.headers["If-None-Match"]).toBe('"a"');
+
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const refreshed = await getProviderDoc(HREF);
+    expect(refreshed.doc.body).toBe("v2");
+    await refreshed.revalidating;
+  });
+
+  it("should keep serving cached docs when the network is unavailable", async () => {
+    mockFetch.mockResolvedValueOnce(htmlResponse("offline copy"));
+    await getProviderDoc(HREF);
+
+    process.env.OPENFEATURE_MCP_DOCS_CACHE_TTL_HOURS = "0";
+    mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+    const first = await getProviderDoc(HREF);
+    await first.revalidating;
+    const second = await getProviderDoc(HREF);
+    await second.revalidating;
+
+    expect(second).toMatchObject({
+      source: "stale",
+      doc: { body: "offline copy" },
+      refreshError: "fetch failed",
+    });
+  });
+
+  it("should fail when nothing is cached and the download fails", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response("nope", { status: 404, statusText: "Not Found" })
+    );
+
+    await expect(getProviderDoc(HREF)).rejects.toThrow(
+      "Failed to fetch documentation (404 Not Found)"
+    );
+  });
+
+  it("should pre-warm every provider doc", async () => {
+    mockFetch.mockImplementation(async (href: string) =>
+      htmlResponse(`<p>${href}</p>`)
+    );
+    const hrefs = new Set(
+      Object.values(PROVIDER_DOCS).flatMap((byTechnology) =>
+        Object.values(byTechnology)
+      )
+    );
+
+    const summary = await prewarmProviderDocs();
+
+    expect(summary.failed).toEqual([]);
+    expect(summary.fetched).toHaveLength(hrefs.size);
+    expect(await readdir(dir)).toHaveLength(hrefs.size);
+
+    const again = await prewarmProviderDocs();
+    expect(again.unchanged).toHaveLength(hrefs.size);
+  });
+});
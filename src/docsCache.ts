@@ -0,0 +1,271 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { getProviderDocs } from "./catalog.js";
+import { logger } from "./logger.js";
+
+const DEFAULT_TTL_HOURS = 24;
+const FETCH_TIMEOUT_MS = 15_000;
+const PREWARM_CONCURRENCY = 4;
+
+export type CachedDoc = {
+  href: string;
+  contentType: string;
+  body: string;
+  fetchedAt: string;
+  etag?: string;
+  lastModified?: string;
+};
+
+/**
+ * Where a document was served from: `network` for a fresh download, `cache`
+ * for an entry within its TTL and `stale` for an expired entry that is being
+ * revalidated in the background (or could not be refreshed while offline).
+ */
+export type DocSource = "network" | "cache" | "stale";
+
+export type DocResult = {
+  doc: CachedDoc;
+  source: DocSource;
+  ageSeconds: number;
+  /** Error from the most recent failed refresh, when serving a stale copy. */
+  refreshError?: string;
+  /** Settles once a background revalidation started by this read finishes. */
+  revalidating?: Promise<void>;
+};
+
+export type PrewarmSummary = {
+  cacheDir: string;
+  fetched: string[];
+  unchanged: string[];
+  failed: Array<{ href: string; error: string }>;
+};
+
+// Documents being refreshed, so concurrent reads share one request
+const inFlight = new Map<string, Promise<CachedDoc>>();
+// Last refresh failure per document, surfaced alongside stale content
+const refreshErrors = new Map<string, string>();
+
+export function getDocsCacheDir(): string {
+  const explicit = process.env.OPENFEATURE_MCP_DOCS_CACHE_DIR;
+  if (explicit && explicit.length > 0) {
+    return explicit;
+  }
+  const cacheHome =
+    process.env.XDG_CACHE_HOME && process.env.XDG_CACHE_HOME.length > 0
+      ? process.env.XDG_CACHE_HOME
+      : join(homedir(), ".cache");
+  return join(cacheHome, "openfeature-mcp", "docs");
+}
+
+function ttlMs(): number {
+  const raw = process.env.OPENFEATURE_MCP_DOCS_CACHE_TTL_HOURS;
+  const parsed = raw !== undefined && raw !== "" ? Number(raw) : NaN;
+  const hours =
+    Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+function entryPath(href: string): string {
+  const name = createHash("sha256").update(href).digest("hex").slice(0, 32);
+  return join(getDocsCacheDir(), `${name}.json`);
+}
+
+async function readEntry(href: string): Promise<CachedDoc | undefined> {
+  try {
+    const entry = JSON.parse(
+      await readFile(entryPath(href), { encoding: "utf-8" })
+    ) as CachedDoc;
+    return entry.href === href ? entry : undefined;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      logger.warn(`Ignoring unreadable docs cache entry for ${href}`, {
+        error: err,
+      });
+    }
+    return undefined;
+  }
+}
+
+async function writeEntry(entry: CachedDoc): Promise<void> {
+  const path = entryPath(entry.href);
+  await mkdir(getDocsCacheDir(), { recursive: true });
+  // Write then rename so readers never see a partially written entry
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(entry), { encoding: "utf-8" });
+  await rename(tmpPath, path);
+}
+
+/**
+ * Downloads a document, revalidating with `If-None-Match`/`If-Modified-Since`
+ * when a previous copy exists. A 304 keeps the cached body with a new timestamp.
+ */
+async function download(
+  href: string,
+  previous: CachedDoc | undefined
+): Promise<CachedDoc> {
+  const headers: Record<string, string> = {};
+  if (previous?.etag) {
+    headers["If-None-Match"] = previous.etag;
+  }
+  if (previous?.lastModified) {
+    headers["If-Modified-Since"] = previous.lastModified;
+  }
+
+  const response = await fetch(href, {
+    headers,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  let entry: CachedDoc;
+  if (response.status === 304 && previous) {
+    entry = { ...previous, fetchedAt: new Date().toISOString() };
+  } else if (response.ok) {
+    entry = {
+      href,
+      contentType: response.headers.get("content-type") || "text/html",
+      body: await response.text(),
+      fetchedAt: new Date().toISOString(),
+      ...(response.headers.get("etag")
+        ? { etag: response.headers.get("etag") as string }
+        : {}),
+      ...(response.headers.get("last-modified")
+        ? { lastModified: response.headers.get("last-modified") as string }
+        : {}),
+    };
+  } else {
+    throw new Error(
+      `Failed to fetch documentation (${response.status} ${response.statusText}) from ${href}.`
+    );
+  }
+
+  await writeEntry(entry);
+  refreshErrors.delete(href);
+  return entry;
+}
+
+function refresh(
+  href: string,
+  previous: CachedDoc | undefined
+): Promise<CachedDoc> {
+  let pending = inFlight.get(href);
+  if (!pending) {
+    pending = download(href, previous).finally(() => inFlight.delete(href));
+    inFlight.set(href, pending);
+  }
+  return pending;
+}
+
+function ageSeconds(doc: CachedDoc, now: number): number {
+  return Math.max(0, Math.round((now - Date.parse(doc.fetchedAt)) / 1000));
+}
+
+/**
+ * Returns a provider document using stale-while-revalidate: fresh entries are
+ * served from disk, expired entries are served immediately while a background
+ * request refreshes them, and missing entries are downloaded. Throws only when
+ * there is no cached copy and the download fails.
+ */
+export async function getProviderDoc(href: string): Promise<DocResult> {
+  const cached = await readEntry(href);
+  const now = Date.now();
+
+  if (!cached) {
+    const doc = await refresh(href, undefined);
+    return { doc, source: "network", ageSeconds: 0 };
+  }
+
+  if (now - Date.parse(cached.fetchedAt) < ttlMs()) {
+    return {
+      doc: cached,
+      source: "cache",
+      ageSeconds: ageSeconds(cached, now),
+    };
+  }
+
+  const revalidating = refresh(href, cached).then(
+    () => undefined,
+    (err) => {
+      const message = err instanceof Error ? err.message : String(err);
+      refreshErrors.set(href, message);
+      logger.warn(`Could not refresh cached documentation ${href}`, {
+        error: message,
+      });
+    }
+  );
+  return {
+    doc: cached,
+    source: "stale",
+    ageSeconds: ageSeconds(cached, now),
+    ...(refreshErrors.has(href)
+      ? { refreshError: refreshErrors.get(href) }
+      : {}),
+    revalidating,
+  };
+}
+
+/**
+ * Downloads every documentation page in the provider catalog into the disk cache,
+ * so the resources keep working in air-gapped environments.
+ */
+export async function prewarmProviderDocs(): Promise<PrewarmSummary> {
+  const hrefs = [
+    ...new Set(
+      Object.values(getProviderDocs()).flatMap((byTechnology) =>
+        Object.values(byTechnology)
+      )
+    ),
+  ];
+
+  const summary: PrewarmSummary = {
+    cacheDir: getDocsCacheDir(),
+    fetched: [],
+    unchanged: [],
+    failed: [],
+  };
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < hrefs.length) {
+      const href = hrefs[next++];
+      try {
+        const previous = await readEntry(href);
+        const doc = await refresh(href, previous);
+        if (previous && doc.body === previous.body) {
+          summary.unchanged.push(href);
+        } else {
+          summary.fetched.push(href);
+        }
+      } catch (err) {
+        summary.failed.push({
+          href,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(PREWARM_CONCURRENCY, hrefs.length) }, worker)
+  );
+
+  return summary;
+}
+
+/**
+ * Describes the age of a document in words, e.g. "3 hours".
+ */
+export function formatAge(seconds: number): string {
+  const units: Array<[string, number]> = [
+    ["day", 86_400],
+    ["hour", 3_600],
+    ["minute", 60],
+  ];
+  for (const [unit, size] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size);
+      return `${count} ${unit}${count === 1 ? "" : "s"}`;
+    }
+  }
+  return "less than a minute";
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { htmlToMarkdown } from "./htmlToMarkdown.js";
+
+const page = `<!DOCTYPE html>
+<html>
+<head>
+  <title>flagd provider</title>
+  <style>body { color: red; }</style>
+  <script>window.analytics = {};</script>
+</head>
+<body>
+  <nav><a href="/">Home</a><a href="/docs">Docs</a></nav>
+  <main>
+    <aside class="sidebar"><ul><li>Other page</li></ul></aside>
+    <article>
+      <header><h1>NodeJS provider<a class="hash-link" href="#top">#</a></h1></header>
+      <p>Install the <strong>flagd</strong> provider &amp; the <a href="/sdk">server SDK</a>:</p>
+      <pre class="language-bash"><code>npm install @openfeature/flagd-provider</code></pre>
+      <h2>Options</h2>
+      <table>
+        <thead><tr><th>Option</th><th>Default</th></tr></thead>
+        <tbody>
+          <tr><td><code>host</code></td><td>localhost</td></tr>
+          <tr><td>port</td><td>8013 | 8015</td></tr>
+        </tbody>
+      </table>
+      <ul>
+        <li>First
+          <ul><li>Nested</li></ul>
+        </li>
+        <li>Second</li>
+      </ul>
+      <ol start="3"><li>Three<li>Four</ol>
+    </article>
+  </main>
+  <footer>Copyright</footer>
+</body>
+</html>`;
+
+describe("htmlToMarkdown", () => {
+  const markdown = htmlToMarkdown(page, {
+    baseUrl: "https://flagd.dev/providers/nodejs/",
+  });
+
+  it("should keep only the main content", () => {
+    expect(markdown).not.toMatch(/Home|Other page|Copyright|analytics|color/);
+    expect(markdown.startsWith("# NodeJS provider\n")).toBe(true);
+  });
+
+  it("should convert inline formatting and resolve links", () => {
+    expect(markdown).toContain(
+      "Install the **flagd** provider & the [server SDK](https://flagd.dev/sdk):"
+    );
+  });
+
+  it("should convert code blocks with their language", () => {
+    expect(markdown).toContain(
+      "```bash\nnpm install @openfeature/flagd-provider\n```"
+    );
+  });
+
+  it("should convert tables", () => {
+    expect(markdown).toContain(
+      [
+        "| Option | Default |",
+        "| --- | --- |",
+        "| `host` | localhost |",
+        "| port | 8013 \\| 8015 |",
+      ].join("\n")
+    );
+  });
+
+  it("should convert nested and ordered lists", () => {
+    expect(markdown).toContain("- First\n\n  - Nested\n- Second");
+    expect(markdown).toContain("3. Three\n4. Four");
+  });
+
+  it("should fall back to the body without page chrome", () => {
+    expect(
+      htmlToMarkdown(
+        "<body><header>Site</header><h2>Usage</h2><p>Hello<br>world</p><footer>Legal</footer></body>"
+      )
+    ).toBe("## Usage\n\nHello\nworld\n");
+  });
+
+  it("should preserve whitespace and backticks inside code blocks", () => {
+    expect(
+      htmlToMarkdown(
+        '<pre><code class="language-md">```ts\n  indented &lt;T&gt;\n```</code></pre>'
+      )
+    ).toBe("````md\n```ts\n  indented <T>\n```\n````\n");
+  });
+});
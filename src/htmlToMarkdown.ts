@@ -0,0 +1,552 @@
+/**
+ * Minimal HTML to Markdown conversion for provider documentation pages.
+ * It keeps the main content (headings, paragraphs, lists, code blocks, tables,
+ * links) and drops navigation, scripts and styling so docs fit in less context.
+ */
+
+type HtmlElement = {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+};
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements whose content is never documentation
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "nav",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "textarea",
+  "title",
+  "head",
+]);
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+// Opening the key element implicitly closes an open element of these tags
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  times: "×",
+  larr: "←",
+  rarr: "→",
+  ZeroWidthSpace: "",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity] ?? match;
+    }
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? ""
+    );
+  }
+  return attrs;
+}
+
+/**
+ * Parses HTML into a loose element tree. Unclosed and mismatched tags are
+ * tolerated the way browsers mostly do, which is enough for documentation pages.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const tagPattern =
+    /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    if (match.index > index) {
+      current().children.push(decodeEntities(html.slice(index, match.index)));
+    }
+    index = tagPattern.lastIndex;
+
+    const [, closingTag, openingTag, rawAttrs, selfClosing] = match;
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      const position = stack.map((el) => el.tag).lastIndexOf(tag);
+      if (position > 0) {
+        stack.length = position;
+      }
+      continue;
+    }
+    if (!openingTag) {
+      continue; // comment or doctype
+    }
+
+    const tag = openingTag.toLowerCase();
+    const closes = IMPLICIT_CLOSE[tag];
+    if (closes?.includes(current().tag)) {
+      stack.pop();
+    } else if (BLOCK_TAGS.has(tag) && current().tag === "p") {
+      stack.pop();
+    }
+
+    const element: HtmlElement = {
+      tag,
+      attrs: parseAttributes(rawAttrs ?? ""),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, index);
+      const stop = end === -1 ? html.length : end;
+      element.children.push(html.slice(index, stop));
+      const close = html.indexOf(">", stop);
+      index = close === -1 ? html.length : close + 1;
+      tagPattern.lastIndex = index;
+    } else if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  if (index < html.length) {
+    current().children.push(decodeEntities(html.slice(index)));
+  }
+  return root;
+}
+
+function findElement(
+  node: HtmlElement,
+  predicate: (el: HtmlElement) => boolean
+): HtmlElement | undefined {
+  for (const child of node.children) {
+    if (typeof child === "string") {
+      continue;
+    }
+    if (predicate(child)) {
+      return child;
+    }
+    const found = findElement(child, predicate);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Picks the element holding the page's main content: an `<article>`, `<main>`
+ * or `role="main"` element, falling back to `<body>`.
+ */
+function selectMainContent(root: HtmlElement): {
+  element: HtmlElement;
+  isFallback: boolean;
+} {
+  const main =
+    findElement(root, (el) => el.tag === "article") ??
+    findElement(root, (el) => el.tag === "main") ??
+    findElement(root, (el) => el.attrs.role === "main");
+  if (main) {
+    return { element: main, isFallback: false };
+  }
+  return {
+    element: findElement(root, (el) => el.tag === "body") ?? root,
+    isFallback: true,
+  };
+}
+
+type RenderContext = {
+  baseUrl?: string;
+  // Page chrome is only dropped when no main content element was found
+  dropChrome: boolean;
+};
+
+function isHidden(el: HtmlElement, ctx: RenderContext): boolean {
+  if (DROPPED_TAGS.has(el.tag)) {
+    return true;
+  }
+  if (ctx.dropChrome && (el.tag === "header" || el.tag === "footer")) {
+    return true;
+  }
+  return (
+    "hidden" in el.attrs ||
+    el.attrs["aria-hidden"] === "true" ||
+    /(^|\s)(hash-link|sr-only|visually-hidden)(\s|$)/.test(el.attrs.class ?? "")
+  );
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (node.tag === "br") {
+    return "\n";
+  }
+  return node.children.map(textContent).join("");
+}
+
+function resolveUrl(href: string, baseUrl: string | undefined): string {
+  if (!baseUrl) {
+    return href;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+function codeLanguage(...elements: Array<HtmlElement | undefined>): string {
+  for (const el of elements) {
+    const match = /(?:language|lang|highlight-source)-([\w+#-]+)/.exec(
+      el?.attrs.class ?? ""
+    );
+    if (match) {
+      return match[1];
+    }
+  }
+  return "";
+}
+
+function renderInline(nodes: HtmlNode[], ctx: RenderContext): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return node.replace(/\s+/g, " ");
+      }
+      if (isHidden(node, ctx)) {
+        return "";
+      }
+      const inner = () => renderInline(node.children, ctx);
+      switch (node.tag) {
+        case "br":
+          return "\n";
+        case "code":
+        case "kbd":
+        case "samp": {
+          const text = textContent(node).replace(/\s+/g, " ");
+          if (!text.trim()) {
+            return "";
+          }
+          const fence = text.includes("`") ? "``" : "`";
+          return `${fence}${text}${fence}`;
+        }
+        case "strong":
+        case "b":
+          return wrapInline("**", inner());
+        case "em":
+        case "i":
+          return wrapInline("*", inner());
+        case "del":
+        case "s":
+          return wrapInline("~~", inner());
+        case "a": {
+          const text = inner().trim();
+          const href = node.attrs.href;
+          if (!text || text === "#") {
+            return "";
+          }
+          if (!href || href.startsWith("javascript:")) {
+            return text;
+          }
+          return `[${text}](${resolveUrl(href, ctx.baseUrl)})`;
+        }
+        case "img": {
+          const alt = (node.attrs.alt ?? "").trim();
+          return alt && node.attrs.src
+            ? `![${alt}](${resolveUrl(node.attrs.src, ctx.baseUrl)})`
+            : "";
+        }
+        default:
+          return BLOCK_TAGS.has(node.tag) || node.tag === "li"
+            ? ` ${renderBlocks(node.children, ctx).trim()} `
+            : inner();
+      }
+    })
+    .join("");
+}
+
+function wrapInline(marker: string, text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  const leading = text.startsWith(" ") ? " " : "";
+  const trailing = text.endsWith(" ") ? " " : "";
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function cleanInline(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .trim();
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+function renderList(el: HtmlElement, ctx: RenderContext): string {
+  const ordered = el.tag === "ol";
+  const start = Number.parseInt(el.attrs.start ?? "1", 10) || 1;
+  const items = el.children.filter(
+    (child): child is HtmlElement =>
+      typeof child !== "string" && child.tag === "li" && !isHidden(child, ctx)
+  );
+  return items
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}. ` : "- ";
+      const body = renderBlocks(item.children, ctx).trim();
+      const [first = "", ...rest] = body.split("\n");
+      const continuation = indent(rest.join("\n"), " ".repeat(marker.length));
+      return rest.length
+        ? `${marker}${first}\n${continuation}`
+        : marker + first;
+    })
+    .join("\n");
+}
+
+function tableRows(el: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of el.children) {
+    if (typeof child === "string") {
+      continue;
+    }
+    if (child.tag === "tr") {
+      rows.push(child);
+    } else if (["thead", "tbody", "tfoot"].includes(child.tag)) {
+      rows.push(...tableRows(child));
+    }
+  }
+  return rows;
+}
+
+function renderTable(el: HtmlElement, ctx: RenderContext): string {
+  const rows = tableRows(el).map((row) =>
+    row.children
+      .filter(
+        (cell): cell is HtmlElement =>
+          typeof cell !== "string" && (cell.tag === "td" || cell.tag === "th")
+      )
+      .map((cell) =>
+        cleanInline(renderInline(cell.children, ctx))
+          .replace(/\n/g, " ")
+          .replace(/\|/g, "\\|")
+      )
+  );
+  if (rows.length === 0) {
+    return "";
+  }
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(
+      " | "
+    )} |`;
+  const [header, ...body] = rows;
+  return [
+    line(header),
+    line(Array.from({ length: width }, () => "---")),
+    ...body.map(line),
+  ].join("\n");
+}
+
+function renderPre(el: HtmlElement): string {
+  const code = el.children.find(
+    (child): child is HtmlElement =>
+      typeof child !== "string" && child.tag === "code"
+  );
+  const text = textContent(el).replace(/^\n/, "").replace(/\s+$/, "");
+  const longestRun = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${codeLanguage(code, el)}\n${text}\n${fence}`;
+}
+
+function renderBlock(el: HtmlElement, ctx: RenderContext): string {
+  switch (el.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = cleanInline(renderInline(el.children, ctx)).replace(
+        /\n/g,
+        " "
+      );
+      return text ? `${"#".repeat(Number(el.tag[1]))} ${text}` : "";
+    }
+    case "p":
+      return cleanInline(renderInline(el.children, ctx));
+    case "pre":
+      return renderPre(el);
+    case "ul":
+    case "ol":
+      return renderList(el, ctx);
+    case "table":
+      return renderTable(el, ctx);
+    case "blockquote":
+      return indent(renderBlocks(el.children, ctx).trim(), "> ");
+    case "hr":
+      return "---";
+    case "dt":
+    case "summary":
+      return wrapInline("**", cleanInline(renderInline(el.children, ctx)));
+    case "dd":
+      return indent(renderBlocks(el.children, ctx).trim(), "  ");
+    default:
+      return renderBlocks(el.children, ctx);
+  }
+}
+
+/**
+ * Renders a node list as Markdown blocks. Consecutive inline nodes are grouped
+ * into a paragraph; block elements are rendered and separated by blank lines.
+ */
+function renderBlocks(nodes: HtmlNode[], ctx: RenderContext): string {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+  const flushInline = () => {
+    const text = cleanInline(renderInline(inline, ctx));
+    if (text) {
+      blocks.push(text);
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node !== "string" && isHidden(node, ctx)) {
+      continue;
+    }
+    const isBlock =
+      typeof node !== "string" &&
+      (BLOCK_TAGS.has(node.tag) ||
+        ["li", "dt", "dd", "summary", "tr", "thead", "tbody"].includes(
+          node.tag
+        ));
+    if (!isBlock) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+    const block = renderBlock(node, ctx).trim();
+    if (block) {
+      blocks.push(block);
+    }
+  }
+  flushInline();
+  return blocks.join("\n\n");
+}
+
+/**
+ * Converts an HTML page to Markdown, keeping only its main content.
+ * Relative links and images are resolved against `baseUrl` when given.
+ */
+export function htmlToMarkdown(
+  html: string,
+  options: { baseUrl?: string } = {}
+): string {
+  const { element, isFallback } = selectMainContent(parseHtml(html));
+  const markdown = renderBlocks(element.children, {
+    baseUrl: options.baseUrl,
+    dropChrome: isFallback,
+  });
+  return markdown.replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
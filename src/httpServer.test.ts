@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { request } from "node:http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { listenHttp, type RunningHttpServer } from "./httpServer.js";
+
+function post(
+  url: string,
+  headers: Record<string, string>
+): Promise<number | undefined> {
+  return new Promise((resolvePromise, rejectPromise) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        resolvePromise(res.statusCode);
+      }
+    );
+    req.on("error", rejectPromise);
+    req.end(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }));
+  });
+}
+
+describe("httpServer", () => {
+  let running: RunningHttpServer;
+
+  beforeAll(async () => {
+    running = await listenHttp({ host: "127.0.0.1", port: 0 });
+  });
+
+  afterAll(async () => {
+    await running.close();
+  });
+
+  it("should serve tools over Streamable HTTP", async () => {
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${running.url}/mcp`)
+    );
+    await client.connect(transport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain("install_openfeature_sdk");
+    expect(transport.sessionId).toBeDefined();
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("should give each session its own server instance", async () => {
+    const first = new StreamableHTTPClientTransport(
+      new URL(`${running.url}/mcp`)
+    );
+    const second = new StreamableHTTPClientTransport(
+      new URL(`${running.url}/mcp`)
+    );
+    const clientA = new Client({ name: "a", version: "0.0.0" });
+    const clientB = new Client({ name: "b", version: "0.0.0" });
+    await clientA.connect(first);
+    await clientB.connect(second);
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+
+    await clientA.close();
+    await clientB.close();
+  });
+
+  it("should serve tools over the SSE fallback", async () => {
+    const client = new Client({ name: "sse-client", version: "0.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${running.url}/sse`)));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain("ofrep_flag_eval");
+
+    await client.close();
+  });
+
+  it("should reject requests without a session", async () => {
+    const response = await fetch(`${running.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should report unknown sessions as not found", async () => {
+    const response = await fetch(`${running.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        "mcp-session-id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject foreign Host and Origin headers", async () => {
+    const { port } = new URL(running.url);
+
+    expect(
+      await post(`${running.url}/mcp`, { host: `attacker.example:${port}` })
+    ).toBe(403);
+    expect(
+      await post(`${running.url}/mcp`, { origin: "http://attacker.example" })
+    ).toBe(403);
+    expect(
+      await post(`${running.url}/mcp`, { origin: `http://localhost:${port}` })
+    ).toBe(400);
+  });
+
+  it("should close the server of a terminated session", async () => {
+    const sessions = async () =>
+      (
+        (await (await fetch(`${running.url}/health`)).json()) as {
+          sessions: number;
+        }
+      ).sessions;
+    const before = await sessions();
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`${running.url}/mcp`)
+    );
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    await client.connect(transport);
+    await transport.terminateSession();
+    await client.close();
+
+    expect(await sessions()).toBe(before);
+  });
+});
+
+describe("httpServer with a token", () => {
+  let running: RunningHttpServer;
+
+  beforeAll(async () => {
+    running = await listenHttp({
+      host: "127.0.0.1",
+      port: 0,
+      token: "team-token",
+    });
+  });
+
+  afterAll(async () => {
+    await running.close();
+  });
+
+  it("should require the bearer token", async () => {
+    expect(await post(`${running.url}/mcp`, {})).toBe(401);
+    expect(
+      await post(`${running.url}/mcp`, { authorization: "Bearer nope" })
+    ).toBe(401);
+
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${running.url}/mcp`), {
+        requestInit: { headers: { authorization: "Bearer team-token" } },
+      })
+    );
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    await client.close();
+  });
+});
+
+describe("httpServer on a non-loopback host", () => {
+  it("should refuse to listen without a token", async () => {
+    await expect(listenHttp({ host: "0.0.0.0", port: 0 })).rejects.toThrow(
+      "Listening on '0.0.0.0' requires a token"
+    );
+  });
+});
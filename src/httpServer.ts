@@ -0,0 +1,368 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "node:http";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import packageJson from "../package.json" with { type: "json" };
+import { createServer, registerProcessHandlers } from "./server.js";
+import { logger } from "./logger.js";
+import { loadCatalogs } from "./catalog.js";
+
+export const MCP_ENDPOINT = "/mcp";
+export const SSE_ENDPOINT = "/sse";
+export const SSE_MESSAGES_ENDPOINT = "/messages";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+  /**
+   * Host names (without port) clients may use to reach the server. Requests
+   * with any other Host header are rejected, which stops DNS rebinding.
+   * Defaults to the loopback names and `host`.
+   */
+  allowedHosts?: string[];
+  /**
+   * Origins allowed to send browser requests. Defaults to `http://<name>:<port>`
+   * for each allowed host. Requests without an Origin header (non-browser
+   * clients) are not affected.
+   */
+  allowedOrigins?: string[];
+  /**
+   * When set, MCP requests must send it as a bearer token. Required unless
+   * `host` is a loopback address, as tools read the server's filesystem.
+   */
+  token?: string;
+};
+
+export type RunningHttpServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+type Session = {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+};
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string
+): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { "content-type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text.length > 0 ? JSON.parse(text) : undefined;
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+function formatHost(host: string): string {
+  return host.includes(":") && !host.startsWith("[") ? `[${host}]` : host;
+}
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(formatHost(host)) || /^127\./.test(host);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined) {
+  if (!token) {
+    return true;
+  }
+  const header = req.headers.authorization ?? "";
+  return timingSafeEqual(digest(header), digest(`Bearer ${token}`));
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Serves the OpenFeature MCP server over Streamable HTTP (`/mcp`), with the
+ * legacy HTTP+SSE transport (`/sse` + `/messages`) as a fallback for older clients.
+ * Every session gets its own `createServer()` instance, so state is never shared between clients.
+ */
+export async function listenHttp(
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  if (!options.token && !isLoopback(options.host)) {
+    throw new Error(
+      `Listening on '${options.host}' requires a token, as tools read the server's filesystem. ` +
+        "Set --token (OPENFEATURE_MCP_TOKEN) or listen on a loopback address."
+    );
+  }
+  const sessions = new Map<string, Session>();
+  // Filled in once listening, when the port is known
+  const allowedHosts: string[] = [];
+  const allowedOrigins: string[] = [];
+
+  const checkRequest = (
+    req: IncomingMessage
+  ): { status: number; message: string } | undefined => {
+    const hostHeader = req.headers.host ?? "";
+    if (!allowedHosts.includes(hostHeader)) {
+      return { status: 403, message: `Invalid Host header: ${hostHeader}` };
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+      return { status: 403, message: `Invalid Origin header: ${origin}` };
+    }
+    if (!isAuthorized(req, options.token)) {
+      return { status: 401, message: "Unauthorized" };
+    }
+    return undefined;
+  };
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await session.server.close().catch((err) => {
+      logger.error("Error closing MCP session", { sessionId, error: err });
+    });
+  };
+
+  const handleStreamableRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const sessionId = headerValue(req.headers["mcp-session-id"]);
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(
+          res,
+          400,
+          "Bad Request: Session belongs to a different transport"
+        );
+        return;
+      }
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        sessionId ? 404 : 400,
+        sessionId
+          ? "Session not found"
+          : "Bad Request: No valid session ID provided"
+      );
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { server, transport });
+        logger.info("MCP session initialized", {
+          transport: "streamable-http",
+          sessionId: newSessionId,
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.has(transport.sessionId)) {
+        logger.info("MCP session closed", { sessionId: transport.sessionId });
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId) {
+      // Initialization failed, so no session owns this server
+      await server.close();
+    }
+  };
+
+  const handleSseConnect = async (
+    _req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res, {
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+    });
+    sessions.set(transport.sessionId, { server, transport });
+    logger.info("MCP session initialized", {
+      transport: "sse",
+      sessionId: transport.sessionId,
+    });
+
+    res.on("close", () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer: HttpServer = createHttpServer((req, res) => {
+    const url = new URL(
+      req.url ?? "/",
+      `http://${req.headers.host ?? "localhost"}`
+    );
+
+    const route = async (): Promise<void> => {
+      if (url.pathname === "/health" && req.method === "GET") {
+        res.writeHead(200, { "content-type": "application/json" }).end(
+          JSON.stringify({
+            status: "ok",
+            version: packageJson.version,
+            sessions: sessions.size,
+          })
+        );
+        return;
+      }
+
+      const rejection = checkRequest(req);
+      if (rejection) {
+        sendJsonRpcError(res, rejection.status, rejection.message);
+        return;
+      }
+
+      if (url.pathname === MCP_ENDPOINT) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_ENDPOINT && req.method === "GET") {
+        await handleSseConnect(req, res);
+      } else if (
+        url.pathname === SSE_MESSAGES_ENDPOINT &&
+        req.method === "POST"
+      ) {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end();
+      }
+    };
+
+    route().catch((err) => {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error("HTTP request error", {
+        path: url.pathname,
+        error: message,
+      });
+      sendJsonRpcError(
+        res,
+        err instanceof SyntaxError ? 400 : 500,
+        err instanceof SyntaxError ? "Parse error" : "Internal server error"
+      );
+    });
+  });
+
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    httpServer.once("error", rejectPromise);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", rejectPromise);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address();
+  const port =
+    address && typeof address === "object" ? address.port : options.port;
+  const host = formatHost(options.host);
+
+  const hostNames = (
+    options.allowedHosts ?? [...LOOPBACK_HOSTS, options.host]
+  ).map(formatHost);
+  allowedHosts.push(...hostNames.map((name) => `${name}:${port}`));
+  if (port === 80) {
+    allowedHosts.push(...hostNames);
+  }
+  allowedOrigins.push(
+    ...(options.allowedOrigins ??
+      hostNames.map((name) => `http://${name}:${port}`))
+  );
+
+  const close = async (): Promise<void> => {
+    await Promise.all([...sessions.keys()].map(closeSession));
+    await new Promise<void>((resolvePromise) => {
+      httpServer.close(() => resolvePromise());
+      httpServer.closeAllConnections();
+    });
+  };
+
+  return { url: `http://${host}:${port}`, close };
+}
+
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<void> {
+  logger.info("Initializing OpenFeature MCP HTTP server", {
+    version: packageJson.version,
+    host: options.host,
+    port: options.port,
+  });
+  await loadCatalogs();
+
+  const running = await listenHttp(options);
+
+  let shuttingDown = false;
+  registerProcessHandlers(async () => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    await running.close();
+  });
+
+  logger.info(
+    `✅ OpenFeature MCP Server (HTTP) listening on ${running.url}${MCP_ENDPOINT} (SSE fallback: ${running.url}${SSE_ENDPOINT})`
+  );
+}
@@ -0,0 +1,320 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  FlagMetadataSchema,
+  FlagValueSchema,
+  type BulkFlagEvaluation,
+  type FlagValue,
+} from "./tools/ofrepSchemas.js";
+
+/**
+ * flagd-style flag definitions, see https://flagd.dev/reference/flag-definitions/
+ * Targeting supports a JsonLogic subset: if, ==, ===, !=, !==, !, !!, and, or,
+ * <, <=, >, >=, in, cat, var, plus flagd's starts_with and ends_with.
+ */
+export const FlagDefinitionSchema = z
+  .object({
+    state: z.enum(["ENABLED", "DISABLED"]).default("ENABLED"),
+    variants: z.record(z.string(), FlagValueSchema),
+    defaultVariant: z.string(),
+    targeting: z.unknown().optional(),
+    metadata: FlagMetadataSchema.optional(),
+  })
+  .refine((flag) => Object.hasOwn(flag.variants, flag.defaultVariant), {
+    message: "defaultVariant must name one of the variants",
+    path: ["defaultVariant"],
+  });
+export type FlagDefinition = z.infer<typeof FlagDefinitionSchema>;
+
+export const FlagFileSchema = z
+  .object({
+    flags: z.record(z.string().min(1), FlagDefinitionSchema),
+    metadata: FlagMetadataSchema.optional(),
+  })
+  .passthrough();
+export type FlagFile = z.infer<typeof FlagFileSchema>;
+
+/**
+ * Reads and validates a flag file, throwing with the schema issues when it is
+ * invalid. Errors never quote the file content, as the path may come from a
+ * tool call.
+ */
+export async function readFlagFile(path: string): Promise<FlagFile> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, { encoding: "utf-8" }));
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      throw new Error(`Invalid flag file ${path}: the file is not valid JSON`);
+    }
+    throw err;
+  }
+  const parsed = FlagFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid flag file ${path}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+  return parsed.data;
+}
+
+export type LocalEvaluation =
+  | { status: 200; result: BulkFlagEvaluation }
+  | {
+      status: 400 | 404;
+      result: {
+        key: string;
+        errorCode: "FLAG_NOT_FOUND" | "GENERAL" | "PARSE_ERROR";
+        errorDetails: string;
+      };
+    };
+
+type JsonLogicData = Record<string, unknown>;
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !!value;
+}
+
+function getVar(data: JsonLogicData, path: unknown, fallback?: unknown) {
+  if (path === undefined || path === null || path === "") {
+    return data;
+  }
+  let current: unknown = data;
+  for (const segment of String(path).split(".")) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !Object.hasOwn(current, segment)
+    ) {
+      return fallback ?? null;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current === undefined ? fallback ?? null : current;
+}
+
+function compare(op: "<" | "<=" | ">" | ">=", a: unknown, b: unknown): boolean {
+  const x = a as number;
+  const y = b as number;
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    case ">=":
+      return x >= y;
+  }
+}
+
+/**
+ * Applies a JsonLogic rule to `data`. Unsupported operators throw, so broken
+ * targeting surfaces as an evaluation error rather than a silent default.
+ */
+export function applyJsonLogic(rule: unknown, data: JsonLogicData): unknown {
+  if (Array.isArray(rule)) {
+    return rule.map((item) => applyJsonLogic(item, data));
+  }
+  if (rule === null || typeof rule !== "object") {
+    return rule;
+  }
+
+  const entries = Object.entries(rule as Record<string, unknown>);
+  if (entries.length !== 1) {
+    throw new Error(
+      `Invalid targeting rule: expected a single operator, got ${entries.length}`
+    );
+  }
+  const [op, rawArgs] = entries[0];
+  const args = Array.isArray(rawArgs) ? rawArgs : [rawArgs];
+
+  // Lazily evaluated operators
+  if (op === "if" || op === "?:") {
+    let i = 0;
+    for (; i < args.length - 1; i += 2) {
+      if (truthy(applyJsonLogic(args[i], data))) {
+        return applyJsonLogic(args[i + 1], data);
+      }
+    }
+    return i === args.length - 1 ? applyJsonLogic(args[i], data) : null;
+  }
+  if (op === "and") {
+    let value: unknown = true;
+    for (const arg of args) {
+      value = applyJsonLogic(arg, data);
+      if (!truthy(value)) {
+        return value;
+      }
+    }
+    return value;
+  }
+  if (op === "or") {
+    let value: unknown = false;
+    for (const arg of args) {
+      value = applyJsonLogic(arg, data);
+      if (truthy(value)) {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  const values = args.map((arg) => applyJsonLogic(arg, data));
+  switch (op) {
+    case "var":
+      return getVar(data, values[0], values[1]);
+    case "==":
+      return values[0] == values[1];
+    case "===":
+      return values[0] === values[1];
+    case "!=":
+      return values[0] != values[1];
+    case "!==":
+      return values[0] !== values[1];
+    case "!":
+      return !truthy(values[0]);
+    case "!!":
+      return truthy(values[0]);
+    case "<":
+    case "<=":
+      return values.length === 3
+        ? compare(op, values[0], values[1]) && compare(op, values[1], values[2])
+        : compare(op, values[0], values[1]);
+    case ">":
+    case ">=":
+      return compare(op, values[0], values[1]);
+    case "in": {
+      const haystack = values[1];
+      if (typeof haystack === "string") {
+        return haystack.includes(String(values[0]));
+      }
+      return Array.isArray(haystack) ? haystack.includes(values[0]) : false;
+    }
+    case "cat":
+      return values.map((v) => (v === null ? "" : String(v))).join("");
+    case "starts_with":
+      return (
+        typeof values[0] === "string" &&
+        typeof values[1] === "string" &&
+        values[0].startsWith(values[1])
+      );
+    case "ends_with":
+      return (
+        typeof values[0] === "string" &&
+        typeof values[1] === "string" &&
+        values[0].endsWith(values[1])
+      );
+    default:
+      throw new Error(`Unsupported targeting operator '${op}'`);
+  }
+}
+
+function hasTargeting(targeting: unknown): boolean {
+  return (
+    targeting !== undefined &&
+    targeting !== null &&
+    !(
+      typeof targeting === "object" &&
+      Object.keys(targeting as object).length === 0
+    )
+  );
+}
+
+function resolved(
+  key: string,
+  flag: FlagDefinition,
+  variant: string,
+  reason: string,
+  fileMetadata: FlagFile["metadata"]
+): LocalEvaluation {
+  const metadata = { ...fileMetadata, ...flag.metadata };
+  return {
+    status: 200,
+    result: {
+      key,
+      value: flag.variants[variant] as FlagValue,
+      variant,
+      reason,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    },
+  };
+}
+
+/**
+ * Evaluates one flag the way flagd does: disabled flags resolve to their
+ * default variant with reason DISABLED, flags without targeting are STATIC,
+ * targeting that returns a variant is a TARGETING_MATCH and targeting that
+ * returns null falls back to the DEFAULT variant.
+ */
+export function evaluateLocalFlag(
+  file: FlagFile,
+  key: string,
+  context: Record<string, unknown>
+): LocalEvaluation {
+  const flag = Object.hasOwn(file.flags, key) ? file.flags[key] : undefined;
+  if (!flag) {
+    return {
+      status: 404,
+      result: {
+        key,
+        errorCode: "FLAG_NOT_FOUND",
+        errorDetails: `Flag '${key}' was not found`,
+      },
+    };
+  }
+
+  if (flag.state === "DISABLED") {
+    return resolved(key, flag, flag.defaultVariant, "DISABLED", file.metadata);
+  }
+  if (!hasTargeting(flag.targeting)) {
+    return resolved(key, flag, flag.defaultVariant, "STATIC", file.metadata);
+  }
+
+  let outcome: unknown;
+  try {
+    outcome = applyJsonLogic(flag.targeting, {
+      ...context,
+      $flagd: { flagKey: key, timestamp: Math.floor(Date.now() / 1000) },
+    });
+  } catch (err) {
+    return {
+      status: 400,
+      result: {
+        key,
+        errorCode: "PARSE_ERROR",
+        errorDetails: err instanceof Error ? err.message : String(err),
+      },
+    };
+  }
+
+  if (outcome === null || outcome === undefined) {
+    return resolved(key, flag, flag.defaultVariant, "DEFAULT", file.metadata);
+  }
+  const variant = String(outcome);
+  if (!Object.hasOwn(flag.variants, variant)) {
+    return {
+      status: 400,
+      result: {
+        key,
+        errorCode: "GENERAL",
+        errorDetails: `Targeting returned unknown variant '${variant}'`,
+      },
+    };
+  }
+  return resolved(key, flag, variant, "TARGETING_MATCH", file.metadata);
+}
+
+export function evaluateAllLocalFlags(
+  file: FlagFile,
+  context: Record<string, unknown>
+): BulkFlagEvaluation[] {
+  return Object.keys(file.flags).map(
+    (key) => evaluateLocalFlag(file, key, context).result
+  );
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RegisterToolWithErrorHandling } from "./server.js";
+import {
+  listenLocalOFREP,
+  type RunningLocalOFREPServer,
+} from "./localOfrepServer.js";
+import { FlagDefinitionSchema, readFlagFile } from "./localFlags.js";
+import { registerOFREPTools } from "./tools/ofrepTools.js";
+import { clearBulkCache } from "./tools/ofrepCache.js";
+import {
+  listEnvironments,
+  registerLocalEnvironment,
+} from "./tools/ofrepConfig.js";
+
+const TOKEN = "local-token";
+
+const flagFile = {
+  flags: {
+    "new-checkout": {
+      state: "ENABLED",
+      variants: { on: true, off: false },
+      defaultVariant: "off",
+      targeting: {
+        if: [{ ends_with: [{ var: "email" }, "@example.com"] }, "on", null],
+      },
+    },
+    "banner-text": {
+      variants: { hello: "Hello", bye: "Bye" },
+      defaultVariant: "hello",
+      metadata: { owner: "growth" },
+    },
+    "legacy-search": {
+      state: "DISABLED",
+      variants: { on: true, off: false },
+      defaultVariant: "off",
+    },
+  },
+  metadata: { flagSetId: "local" },
+};
+
+function parse(result: CallToolResult) {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+describe("localOfrepServer", () => {
+  let dir: string;
+  let running: RunningLocalOFREPServer;
+  let evaluate: (args: unknown) => Promise<CallToolResult>;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ofrep-local-"));
+    const flagsPath = join(dir, "flags.json");
+    await writeFile(flagsPath, JSON.stringify(flagFile));
+    running = await listenLocalOFREP({
+      flagsPath,
+      host: "127.0.0.1",
+      port: 0,
+      token: TOKEN,
+    });
+  });
+
+  afterAll(async () => {
+    registerLocalEnvironment(undefined);
+    await running.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    delete process.env.OPENFEATURE_OFREP_BASE_URL;
+    delete process.env.OPENFEATURE_OFREP_BEARER_TOKEN;
+    delete process.env.OPENFEATURE_OFREP_API_KEY;
+    delete process.env.OPENFEATURE_OFREP_ENVIRONMENT;
+    process.env.OPENFEATURE_MCP_CONFIG_PATH = join(dir, "missing.json");
+    clearBulkCache();
+    registerLocalEnvironment({ baseUrl: running.url, bearerToken: TOKEN });
+
+    const tools = new Map<string, (args: unknown) => Promise<CallToolResult>>();
+    const registerTool: RegisterToolWithErrorHandling = (
+      name,
+      config,
+      handler
+    ) => {
+      tools.set(name, handler as (args: unknown) => Promise<CallToolResult>);
+    };
+    registerOFREPTools(registerTool);
+    evaluate = tools.get("ofrep_flag_eval")!;
+  });
+
+  it("should be the default environment over a legacy config block", async () => {
+    const configPath = join(dir, "legacy.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        OFREP: { baseUrl: "https://flags.example.com", apiKey: "key" },
+      })
+    );
+    process.env.OPENFEATURE_MCP_CONFIG_PATH = configPath;
+
+    const { defaultEnvironment, environments } = await listEnvironments();
+    expect(defaultEnvironment).toBe("local");
+    expect(environments.map((env) => env.name)).toEqual(["local", "default"]);
+
+    const result = parse(await evaluate({ flag_key: "banner-text" }));
+    expect(result.data).toMatchObject({ value: "Hello" });
+  });
+
+  it("should keep an explicit defaultEnvironment from the config file", async () => {
+    const configPath = join(dir, "environments.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        OFREP: {
+          defaultEnvironment: "prod",
+          environments: {
+            prod: { baseUrl: "https://flags.example.com", apiKey: "key" },
+          },
+        },
+      })
+    );
+    process.env.OPENFEATURE_MCP_CONFIG_PATH = configPath;
+
+    expect((await listEnvironments()).defaultEnvironment).toBe("prod");
+  });
+
+  it("should resolve targeting matches and fall back to the default", async () => {
+    const match = parse(
+      await evaluate({
+        flag_key: "new-checkout",
+        context: { targetingKey: "u1", email: "dev@example.com" },
+      })
+    );
+    expect(match.status).toBe(200);
+    expect(match.data).toEqual({
+      key: "new-checkout",
+      value: true,
+      variant: "on",
+      reason: "TARGETING_MATCH",
+      metadata: { flagSetId: "local" },
+    });
+
+    const fallback = parse(
+      await evaluate({
+        flag_key: "new-checkout",
+        context: { targetingKey: "u2", email: "someone@other.org" },
+      })
+    );
+    expect(fallback.data).toMatchObject({ value: false, reason: "DEFAULT" });
+  });
+
+  it("should report static, disabled and missing flags", async () => {
+    const banner = parse(await evaluate({ flag_key: "banner-text" }));
+    expect(banner.data).toMatchObject({
+      value: "Hello",
+      reason: "STATIC",
+      metadata: { flagSetId: "local", owner: "growth" },
+    });
+
+    const legacy = parse(await evaluate({ flag_key: "legacy-search" }));
+    expect(legacy.data).toMatchObject({ value: false, reason: "DISABLED" });
+
+    const missing = parse(await evaluate({ flag_key: "nope" }));
+    expect(missing).toMatchObject({
+      status: 404,
+      error: { key: "nope", errorCode: "FLAG_NOT_FOUND" },
+    });
+  });
+
+  it("should serve bulk evaluations with ETag revalidation", async () => {
+    const first = parse(await evaluate({ context: { targetingKey: "u1" } }));
+    expect(first.status).toBe(200);
+    expect(first.cache).toBe("miss");
+    expect(first.etag).toMatch(/^".+"$/);
+    expect(first.data.flags).toHaveLength(3);
+
+    const second = parse(await evaluate({ context: { targetingKey: "u1" } }));
+    expect(second.status).toBe(304);
+    expect(second.etag).toBe(first.etag);
+    expect(second.cache).toBe("revalidated");
+    expect(second.data).toEqual(first.data);
+  });
+
+  it("should reject requests without the token", async () => {
+    const response = await fetch(`${running.url}/ofrep/v1/evaluate/flags`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ context: {} }),
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("should only evaluate flags and variants defined in the file", async () => {
+    const response = await fetch(
+      `${running.url}/ofrep/v1/evaluate/flags/constructor`,
+      { method: "POST", headers: { authorization: `Bearer ${TOKEN}` } }
+    );
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      key: "constructor",
+      errorCode: "FLAG_NOT_FOUND",
+    });
+
+    expect(
+      FlagDefinitionSchema.safeParse({
+        variants: { on: true },
+        defaultVariant: "toString",
+      }).success
+    ).toBe(false);
+  });
+
+  it("should reject malformed flag keys and oversized bodies", async () => {
+    const malformed = await fetch(
+      `${running.url}/ofrep/v1/evaluate/flags/%E0`,
+      { method: "POST", headers: { authorization: `Bearer ${TOKEN}` } }
+    );
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ errorCode: "PARSE_ERROR" });
+
+    const oversized = await fetch(`${running.url}/ofrep/v1/evaluate/flags`, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${TOKEN}`,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ context: { blob: "x".repeat(2 * 1024 * 1024) } }),
+    });
+    expect(oversized.status).toBe(413);
+  });
+
+  it("should not quote the content of a file that is not JSON", async () => {
+    const path = join(dir, "secrets.txt");
+    await writeFile(path, "db_password=hunter2\n");
+
+    const error = await readFlagFile(path).catch((err: Error) => err);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe(
+      `Invalid flag file ${path}: the file is not valid JSON`
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { createHash } from "node:crypto";
+import { stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  evaluateAllLocalFlags,
+  evaluateLocalFlag,
+  readFlagFile,
+  type FlagFile,
+} from "./localFlags.js";
+import { registerProcessHandlers } from "./server.js";
+import { logger } from "./logger.js";
+
+const SINGLE_FLAG_PATH = /^\/ofrep\/v1\/evaluate\/flags\/([^/]+)$/;
+const BULK_PATH = "/ofrep/v1/evaluate/flags";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type LocalOFREPServerOptions = {
+  flagsPath: string;
+  host: string;
+  port: number;
+  /** When set, requests must send it as a bearer token or X-API-Key. */
+  token?: string;
+};
+
+export type RunningLocalOFREPServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+/**
+ * Loads the flag file, re-reading it only when its modification time changes.
+ */
+function createFlagFileLoader(path: string): () => Promise<FlagFile> {
+  let cached: { mtimeMs: number; file: FlagFile } | undefined;
+  return async () => {
+    const { mtimeMs } = await stat(path);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.file;
+    }
+    const file = await readFlagFile(path);
+    cached = { mtimeMs, file };
+    return file;
+  };
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res
+    .writeHead(status, { "content-type": "application/json", ...headers })
+    .end(JSON.stringify(body));
+}
+
+/**
+ * Reads the request body, or returns undefined when it exceeds MAX_BODY_BYTES.
+ * An oversized body is drained without being kept, so the response still
+ * reaches the client.
+ */
+async function readBody(req: IncomingMessage): Promise<string | undefined> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+    req.resume();
+    return undefined;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  return size > MAX_BODY_BYTES
+    ? undefined
+    : Buffer.concat(chunks).toString("utf-8");
+}
+
+function parseContext(text: string): Record<string, unknown> {
+  if (text.length === 0) {
+    return {};
+  }
+  const body = JSON.parse(text) as { context?: unknown };
+  if (body.context === undefined) {
+    return {};
+  }
+  if (
+    body.context === null ||
+    typeof body.context !== "object" ||
+    Array.isArray(body.context)
+  ) {
+    throw new TypeError("context must be an object");
+  }
+  return body.context as Record<string, unknown>;
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined) {
+  if (!token) {
+    return true;
+  }
+  return (
+    req.headers.authorization === `Bearer ${token}` ||
+    req.headers["x-api-key"] === token
+  );
+}
+
+/**
+ * Serves the OFREP single and bulk evaluation endpoints from a local
+ * flagd-style JSON flag file, so agents and tests can evaluate flags without
+ * a real flag service. Bulk responses carry an ETag and honour If-None-Match.
+ */
+export async function listenLocalOFREP(
+  options: LocalOFREPServerOptions
+): Promise<RunningLocalOFREPServer> {
+  const flagsPath = resolve(options.flagsPath);
+  const loadFlags = createFlagFileLoader(flagsPath);
+  // Fail fast on a missing or invalid flag file
+  await loadFlags();
+
+  const handle = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const singleMatch = SINGLE_FLAG_PATH.exec(pathname);
+    if (pathname !== BULK_PATH && !singleMatch) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { allow: "POST" }).end();
+      return;
+    }
+    if (!isAuthorized(req, options.token)) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    let key: string | undefined;
+    if (singleMatch) {
+      try {
+        key = decodeURIComponent(singleMatch[1]);
+      } catch {
+        sendJson(res, 400, {
+          errorCode: "PARSE_ERROR",
+          errorDetails: `Flag key '${singleMatch[1]}' is not correctly URL-encoded`,
+        });
+        return;
+      }
+    }
+
+    const text = await readBody(req);
+    if (text === undefined) {
+      sendJson(res, 413, {
+        ...(key !== undefined ? { key } : {}),
+        errorCode: "GENERAL",
+        errorDetails: `Request body exceeds ${MAX_BODY_BYTES} bytes`,
+      });
+      return;
+    }
+
+    let context: Record<string, unknown>;
+    try {
+      context = parseContext(text);
+    } catch (err) {
+      const errorDetails = err instanceof Error ? err.message : String(err);
+      const errorCode =
+        err instanceof SyntaxError ? "PARSE_ERROR" : "INVALID_CONTEXT";
+      sendJson(
+        res,
+        400,
+        key !== undefined
+          ? { key, errorCode, errorDetails }
+          : { errorCode, errorDetails }
+      );
+      return;
+    }
+
+    const file = await loadFlags();
+    if (key !== undefined) {
+      const evaluation = evaluateLocalFlag(file, key, context);
+      sendJson(res, evaluation.status, evaluation.result);
+      return;
+    }
+
+    const body = {
+      flags: evaluateAllLocalFlags(file, context),
+      ...(file.metadata ? { metadata: file.metadata } : {}),
+    };
+    const etag = `"${createHash("sha1")
+      .update(JSON.stringify(body))
+      .digest("hex")}"`;
+    if (req.headers["if-none-match"] === etag) {
+      res.writeHead(304, { etag }).end();
+      return;
+    }
+    sendJson(res, 200, body, { etag });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      const errorDetails = err instanceof Error ? err.message : String(err);
+      logger.error("Local OFREP server error", { error: errorDetails });
+      if (!res.headersSent) {
+        sendJson(res, 500, { errorDetails });
+      }
+    });
+  });
+
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    httpServer.once("error", rejectPromise);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", rejectPromise);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address();
+  const port =
+    address && typeof address === "object" ? address.port : options.port;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}`,
+    close: () =>
+      new Promise<void>((resolvePromise) => {
+        httpServer.close(() => resolvePromise());
+        httpServer.closeAllConnections();
+      }),
+  };
+}
+
+export async function startLocalOFREPServer(
+  options: LocalOFREPServerOptions
+): Promise<void> {
+  const running = await listenLocalOFREP(options);
+
+  registerProcessHandlers(running.close);
+
+  logger.info(
+    `✅ Local OFREP server listening on ${running.url} (flags: ${resolve(
+      options.flagsPath
+    )})`
+  );
+}
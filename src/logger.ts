@@ -0,0 +1,157 @@
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+type MessageLevel = Exclude<LogLevel, "silent">;
+
+export type LogFields = Record<string, unknown>;
+
+export const REDACTED = "[REDACTED]";
+
+// Field names (compared case-insensitively, ignoring `-` and `_`) whose
+// values are always redacted
+const DEFAULT_SECRET_FIELDS = [
+  "authorization",
+  "bearerToken",
+  "apiKey",
+  "xApiKey",
+  "token",
+  "accessToken",
+  "password",
+  "secret",
+  "cookie",
+  "targetingKey",
+];
+
+// Fields holding evaluation contexts: their attribute names are kept, the
+// attribute values are redacted unless LOG_REDACT_CONTEXT=false
+const CONTEXT_FIELDS = ["context", "baseContext", "contexts", "variations"];
+
+// Fields holding URLs, logged without any `user:password@` part
+const URL_FIELDS = ["url", "baseUrl", "href"];
+
+const MAX_DEPTH = 8;
+
+function normalizeField(name: string): string {
+  return name.replace(/[-_]/g, "").toLowerCase();
+}
+
+function logLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return (LOG_LEVELS as readonly string[]).includes(level ?? "")
+    ? (level as LogLevel)
+    : "info";
+}
+
+function secretFields(): Set<string> {
+  const extra = (process.env.LOG_REDACT_FIELDS ?? "")
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+  return new Set([...DEFAULT_SECRET_FIELDS, ...extra].map(normalizeField));
+}
+
+function redactContext(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactContext);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.keys(value).map((key) => [key, REDACTED]));
+  }
+  return value === undefined ? value : REDACTED;
+}
+
+function stripUserinfo(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    const url = new URL(value);
+    if (!url.username && !url.password) {
+      return value;
+    }
+    url.username = "";
+    url.password = "";
+    return url.toString();
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Returns a copy of `value` that is safe to log: credential fields are
+ * replaced with `[REDACTED]`, evaluation contexts keep only their attribute
+ * names, URLs lose their credentials, and errors are reduced to their name
+ * and message.
+ */
+export function redact(value: unknown): unknown {
+  const secrets = secretFields();
+  const redactContexts = process.env.LOG_REDACT_CONTEXT !== "false";
+  const contexts = new Set(CONTEXT_FIELDS.map(normalizeField));
+  const urls = new Set(URL_FIELDS.map(normalizeField));
+
+  const visit = (current: unknown, depth: number): unknown => {
+    if (current instanceof Error) {
+      return { name: current.name, message: current.message };
+    }
+    if (current === null || typeof current !== "object") {
+      return current;
+    }
+    if (depth >= MAX_DEPTH) {
+      return "[Truncated]";
+    }
+    if (Array.isArray(current)) {
+      return current.map((item) => visit(item, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(current).map(([key, item]) => {
+        const field = normalizeField(key);
+        if (secrets.has(field)) {
+          return [key, item === undefined ? item : REDACTED];
+        }
+        if (redactContexts && contexts.has(field)) {
+          return [key, redactContext(item)];
+        }
+        if (urls.has(field)) {
+          return [key, stripUserinfo(item)];
+        }
+        return [key, visit(item, depth + 1)];
+      })
+    );
+  };
+  return visit(value, 0);
+}
+
+function write(level: MessageLevel, message: string, fields?: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logLevel())) {
+    return;
+  }
+  const safe = fields ? (redact(fields) as LogFields) : undefined;
+  // Everything goes to stderr: stdout carries the MCP protocol on stdio
+  if (process.env.LOG_FORMAT === "json") {
+    console.error(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...safe,
+      })
+    );
+    return;
+  }
+  const suffix =
+    safe && Object.keys(safe).length > 0 ? ` ${JSON.stringify(safe)}` : "";
+  console.error(`[${level}] ${message}${suffix}`);
+}
+
+/**
+ * Central server logger. `LOG_LEVEL` selects the minimum level (default
+ * `info`), `LOG_FORMAT=json` writes one JSON object per line, and fields are
+ * passed through {@link redact} before they are written.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
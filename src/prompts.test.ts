@@ -0,0 +1,179 @@
+import { fileURLToPath } from "node:url";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getProviders, loadCatalogs, resetCatalogs } from "./catalog.js";
+import { registerGuidePrompts, registerInstallPrompts } from "./prompts.js";
+import {
+  GUIDE_TOPICS,
+  INSTALL_TECHNOLOGIES,
+} from "./tools/promptsBundle.generated.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("./fixtures/providers.json", import.meta.url)
+);
+
+describe("install prompts", () => {
+  let client: Client;
+  let server: McpServer;
+
+  beforeAll(async () => {
+    // Prompt argument schemas are built on registration, after the catalog
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+    server = new McpServer({ name: "test", version: "0.0.0" });
+    registerInstallPrompts(server);
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  it("should register a generic prompt and one per technology", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name).sort()).toEqual(
+      [
+        "install_openfeature_sdk",
+        ...INSTALL_TECHNOLOGIES.map((t) => `install_openfeature_${t}`),
+      ].sort()
+    );
+    const generic = prompts.find((p) => p.name === "install_openfeature_sdk");
+    expect(generic?.arguments).toEqual([
+      expect.objectContaining({ name: "technology", required: true }),
+      expect.objectContaining({ name: "providers", required: false }),
+    ]);
+  });
+
+  it("should render the guide with provider steps", async () => {
+    const result = await client.getPrompt({
+      name: "install_openfeature_sdk",
+      arguments: { technology: "nodejs", providers: "flagd" },
+    });
+
+    const [guide, ...links] = result.messages;
+    expect(guide.content.type).toBe("text");
+    const text = (guide.content as { text: string }).text;
+    expect(text).toContain("### Step 2: Provider installation");
+    expect(text).toContain("**flagd**");
+    expect(text).not.toMatch(/PROVIDERS:(START|END)/);
+    expect(links.map((m) => m.content)).toEqual([
+      expect.objectContaining({
+        type: "resource_link",
+        uri: "openfeature+doc://flagd/nodejs",
+      }),
+    ]);
+  });
+
+  it("should strip the provider section when no providers are given", async () => {
+    const result = await client.getPrompt({
+      name: "install_openfeature_go",
+      arguments: {},
+    });
+
+    expect(result.messages).toHaveLength(1);
+    expect((result.messages[0].content as { text: string }).text).not.toMatch(
+      /PROVIDERS:(START|END)|Provider installation/
+    );
+  });
+
+  it("should reject unknown providers", async () => {
+    await expect(
+      client.getPrompt({
+        name: "install_openfeature_nodejs",
+        arguments: { providers: "flagd, nope" },
+      })
+    ).rejects.toThrow("Provider 'nope' is not recognized");
+  });
+
+  it("should complete technologies and provider lists", async () => {
+    const technology = await client.complete({
+      ref: { type: "ref/prompt", name: "install_openfeature_sdk" },
+      argument: { name: "technology", value: "node" },
+    });
+    expect(technology.completion.values).toEqual(["nodejs"]);
+
+    const providers = await client.complete({
+      ref: { type: "ref/prompt", name: "install_openfeature_sdk" },
+      argument: { name: "providers", value: "flagd, dev" },
+    });
+    expect(providers.completion.values).toEqual(
+      getProviders()
+        .filter((provider) => provider.startsWith("dev"))
+        .map((provider) => `flagd, ${provider}`)
+    );
+    expect(providers.completion.values).toContain("flagd, devcycle");
+  });
+});
+
+describe("guide prompts", () => {
+  let client: Client;
+  let server: McpServer;
+
+  beforeAll(async () => {
+    server = new McpServer({ name: "test", version: "0.0.0" });
+    registerGuidePrompts(server);
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("should register a generic prompt and one per topic", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name).sort()).toEqual(
+      [
+        "get_openfeature_guide",
+        ...GUIDE_TOPICS.map((t) => `openfeature_guide_${t}`),
+      ].sort()
+    );
+  });
+
+  it("should render the guide for the technology", async () => {
+    const result = await client.getPrompt({
+      name: "openfeature_guide_tracking",
+      arguments: { technology: "python" },
+    });
+
+    expect(result.messages).toHaveLength(1);
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(text).toContain("TrackingEventDetails(value=order.total");
+    expect(text).not.toContain("MutableTrackingEventDetails");
+  });
+
+  it("should complete topics and reject unknown ones", async () => {
+    const topic = await client.complete({
+      ref: { type: "ref/prompt", name: "get_openfeature_guide" },
+      argument: { name: "topic", value: "multi" },
+    });
+    expect(topic.completion.values).toEqual(["multi-provider"]);
+
+    await expect(
+      client.getPrompt({
+        name: "get_openfeature_guide",
+        arguments: { technology: "nodejs", topic: "nope" },
+      })
+    ).rejects.toThrow();
+  });
+});
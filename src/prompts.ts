@@ -0,0 +1,225 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type {
+  GetPromptResult,
+  PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { buildProviderResourceLinks } from "./resources.js";
+import { renderInstallPrompt } from "./tools/installTools.js";
+import { renderFeatureGuide } from "./tools/guideTools.js";
+import {
+  GUIDE_TOPICS,
+  GuideTopicSchema,
+  type GuideTopic,
+} from "./tools/promptsBundle.generated.js";
+import {
+  getInstallTechnologies,
+  getProviders,
+  installTechnologySchema,
+  providerSchema,
+} from "./catalog.js";
+
+// Prompt arguments are plain strings, so providers are given as a list
+// separated by commas or whitespace, e.g. "flagd, devcycle".
+const PROVIDER_SEPARATOR = /[\s,]+/;
+
+function parseProviders(value: string | undefined): string[] {
+  const names = (value ?? "")
+    .split(PROVIDER_SEPARATOR)
+    .filter((name) => name.length > 0);
+  const schema = providerSchema();
+  return names.map((name) => {
+    const parsed = schema.safeParse(name);
+    if (!parsed.success) {
+      throw new Error(
+        `Provider '${name}' is not recognized. Available providers: ${getProviders().join(
+          ", "
+        )}`
+      );
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Completes the last entry of a provider list, keeping the entries before it.
+ */
+function completeProviders(value: string | undefined): string[] {
+  const [, prefix = "", partial = ""] =
+    /^(.*[\s,])?([^\s,]*)$/.exec(value ?? "") ?? [];
+  const chosen = new Set(prefix.split(PROVIDER_SEPARATOR));
+  return getProviders()
+    .filter(
+      (p) => p.toLowerCase().includes(partial.toLowerCase()) && !chosen.has(p)
+    )
+    .map((p) => `${prefix}${p}`);
+}
+
+// The SDK only completes arguments whose schema is a Completable, and types
+// prompt arguments as strings, so an optional argument cannot be a
+// Completable over `z.string().optional()`. This string schema also accepts
+// an absent argument, which the SDK then reports as not required; handlers
+// receive `undefined` for it.
+const optionalString = z.custom<string>(
+  (value) => value === undefined || typeof value === "string",
+  "Expected a string"
+);
+
+const providersArg = completable(
+  optionalString.describe(
+    "Feature flag providers to install, separated by commas (e.g. 'flagd, devcycle')"
+  ),
+  completeProviders
+);
+
+function technologyArg(technologies: string[]) {
+  return completable(
+    z
+      .string()
+      .describe(`Technology of the application: ${technologies.join(", ")}`),
+    (value) =>
+      technologies.filter((t) =>
+        t.toLowerCase().includes((value || "").toLowerCase())
+      )
+  );
+}
+
+/**
+ * Builds a prompt result from a rendered guide, followed by links to the
+ * documentation of the providers for the technology.
+ */
+function guideResult(
+  description: string,
+  text: string,
+  technology: string,
+  providers: string[]
+): GetPromptResult {
+  const links = buildProviderResourceLinks(providers, technology).map(
+    (content): PromptMessage => ({ role: "user", content })
+  );
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }, ...links],
+  };
+}
+
+function installPromptResult(
+  technology: string,
+  providers: string[]
+): GetPromptResult {
+  return guideResult(
+    `Install the OpenFeature ${technology} SDK`,
+    renderInstallPrompt(technology, providers),
+    technology,
+    providers
+  );
+}
+
+/**
+ * Registers the installation guides (`prompts/*.md` and any loaded from
+ * OPENFEATURE_MCP_PROMPTS_PATH) as MCP prompts, so clients with slash-command
+ * UIs can run them directly:
+ * - install_openfeature_sdk: takes `technology` and `providers`
+ * - install_openfeature_{technology}: one per technology, takes `providers`
+ */
+export function registerInstallPrompts(server: McpServer): void {
+  const technologies = getInstallTechnologies();
+  server.registerPrompt(
+    "install_openfeature_sdk",
+    {
+      title: "Install OpenFeature SDK",
+      description:
+        "Step-by-step instructions for installing the OpenFeature SDK, and optionally feature flag providers, for a technology.",
+      argsSchema: {
+        technology: technologyArg(technologies),
+        providers: providersArg,
+      },
+    },
+    async ({ technology, providers }) =>
+      installPromptResult(
+        installTechnologySchema().parse(technology),
+        parseProviders(providers)
+      )
+  );
+
+  for (const technology of technologies) {
+    server.registerPrompt(
+      `install_openfeature_${technology}`,
+      {
+        title: `Install OpenFeature ${technology} SDK`,
+        description: `Step-by-step instructions for installing the OpenFeature ${technology} SDK, and optionally feature flag providers.`,
+        argsSchema: { providers: providersArg },
+      },
+      async ({ providers }) =>
+        installPromptResult(technology, parseProviders(providers))
+    );
+  }
+}
+
+function guidePromptResult(
+  topic: GuideTopic,
+  technology: string,
+  providers: string[]
+): GetPromptResult {
+  return guideResult(
+    `OpenFeature ${topic} guide for ${technology}`,
+    renderFeatureGuide(topic, technology, providers),
+    technology,
+    providers
+  );
+}
+
+/**
+ * Registers the feature guides (`prompts/guides/*.md`) as MCP prompts:
+ * - get_openfeature_guide: takes `technology`, `topic` and `providers`
+ * - openfeature_guide_{topic}: one per topic, takes `technology` and `providers`
+ */
+export function registerGuidePrompts(server: McpServer): void {
+  const technologies = getInstallTechnologies();
+  server.registerPrompt(
+    "get_openfeature_guide",
+    {
+      title: "OpenFeature Feature Guide",
+      description:
+        "Guide for an OpenFeature feature (hooks, domains, events, tracking, Multi-Provider, context propagation or testing) for a technology.",
+      argsSchema: {
+        technology: technologyArg(technologies),
+        topic: completable(
+          z.string().describe(`Guide topic: ${GUIDE_TOPICS.join(", ")}`),
+          (value) =>
+            GUIDE_TOPICS.filter((t) =>
+              t.toLowerCase().includes((value || "").toLowerCase())
+            )
+        ),
+        providers: providersArg,
+      },
+    },
+    async ({ technology, topic, providers }) =>
+      guidePromptResult(
+        GuideTopicSchema.parse(topic),
+        installTechnologySchema().parse(technology),
+        parseProviders(providers)
+      )
+  );
+
+  for (const topic of GUIDE_TOPICS) {
+    server.registerPrompt(
+      `openfeature_guide_${topic}`,
+      {
+        title: `OpenFeature ${topic} guide`,
+        description: `Guide for the OpenFeature ${topic} feature, with examples for a technology.`,
+        argsSchema: {
+          technology: technologyArg(technologies),
+          providers: providersArg,
+        },
+      },
+      async ({ technology, providers }) =>
+        guidePromptResult(
+          topic,
+          installTechnologySchema().parse(technology),
+          parseProviders(providers)
+        )
+    );
+  }
+}
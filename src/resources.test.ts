@@ -0,0 +1,99 @@
+import { fileURLToPath } from "node:url";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getProviderDocs,
+  getProviders,
+  loadCatalogs,
+  resetCatalogs,
+} from "./catalog.js";
+import { registerProviderResources } from "./resources.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("./fixtures/providers.json", import.meta.url)
+);
+
+describe("provider resources", () => {
+  let client: Client;
+  let server: McpServer;
+
+  beforeAll(async () => {
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+    server = new McpServer({ name: "test", version: "0.0.0" });
+    registerProviderResources(server);
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test-client", version: "0.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  it("should list every provider and language documentation pair", async () => {
+    const { resources } = await client.listResources();
+    const expected = getProviders().flatMap((provider) =>
+      Object.keys(getProviderDocs()[provider]).map(
+        (language) => `openfeature+doc://${provider}/${language}`
+      )
+    );
+
+    const docs = resources.filter((r) => r.uri.split("/").length === 4);
+    expect(docs.map((r) => r.uri).sort()).toEqual(expected.sort());
+    expect(docs[0]).toMatchObject({
+      mimeType: "text/markdown",
+      title: expect.any(String),
+      description: expect.stringContaining("https://"),
+    });
+  });
+
+  it("should list an index resource per provider", async () => {
+    const { resources } = await client.listResources();
+    const indexes = resources
+      .filter((r) => r.uri.split("/").length === 3)
+      .map((r) => r.uri);
+
+    expect(indexes.sort()).toEqual(
+      getProviders()
+        .map((provider) => `openfeature+doc://${provider}`)
+        .sort()
+    );
+  });
+
+  it("should describe the documented languages in a provider index", async () => {
+    const provider = getProviders()[0];
+    const { contents } = await client.readResource({
+      uri: `openfeature+doc://${provider}`,
+    });
+
+    expect(contents[0].mimeType).toBe("text/markdown");
+    for (const [language, href] of Object.entries(
+      getProviderDocs()[provider]
+    )) {
+      expect(contents[0].text).toContain(
+        `| ${language} | openfeature+doc://${provider}/${language} | ${href} |`
+      );
+    }
+  });
+
+  it("should expose the doc, raw HTML and index templates", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "openfeature+doc://{provider}/{language}",
+      "openfeature+doc://{provider}/{language}/html",
+      "openfeature+doc://{provider}",
+    ]);
+  });
+});
@@ -1,127 +1,275 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  ListResourcesCallback,
+  McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
+  getInstallTechnologies,
+  getProviderDocUrl,
+  getProviders,
+  installTechnologySchema,
   providerSchema,
-  PROVIDERS,
-  PROVIDER_DOCS,
-  type ProviderName,
-} from "./tools/providersBundle.generated.js";
-import {
-  InstallTechnologySchema,
-  INSTALL_TECHNOLOGIES,
-  type InstallTechnology,
-} from "./tools/promptsBundle.generated.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+} from "./catalog.js";
+import type {
+  CallToolResult,
+  ListResourcesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { formatAge, getProviderDoc } from "./docsCache.js";
+import { htmlToMarkdown } from "./htmlToMarkdown.js";
 
 export const DISABLE_RESOURCES =
   process.env.DISABLE_RESOURCES &&
   (process.env.DISABLE_RESOURCES === "true" ||
     process.env.DISABLE_RESOURCES === "1");
 
-const TemplateVarsSchema = z.object({
-  provider: providerSchema,
-  language: InstallTechnologySchema,
-});
-
 function resourceName(providerName: string, technology: string): string {
   return `${providerName} ${technology} OpenFeature Provider Documentation`;
 }
 
+function staleNotice(ageSeconds: number, refreshError?: string): string {
+  const age = `This documentation was fetched ${formatAge(ageSeconds)} ago`;
+  return refreshError
+    ? `${age} and could not be refreshed (${refreshError}). It may be out of date.`
+    : `${age}. A newer copy is being fetched in the background.`;
+}
+
+type DocFormat = "markdown" | "html";
+
+function isHtml(contentType: string): boolean {
+  return /\bx?html\b/i.test(contentType);
+}
+
+function completeProvider(value: string): string[] {
+  return getProviders().filter((p) =>
+    p.toLowerCase().includes((value || "").toLowerCase())
+  );
+}
+
+function docTemplate(
+  uriTemplate: string,
+  list: ListResourcesCallback | undefined
+): ResourceTemplate {
+  return new ResourceTemplate(uriTemplate, {
+    list,
+    complete: {
+      provider: async (value: string) => completeProvider(value),
+      language: async (value: string) =>
+        getInstallTechnologies().filter((l) =>
+          l.toLowerCase().includes((value || "").toLowerCase())
+        ),
+    },
+  });
+}
+
+function documentedLanguages(provider: string): string[] {
+  return getInstallTechnologies().filter(
+    (technology) => !!getProviderDocUrl(provider, technology)
+  );
+}
+
+/**
+ * Lists a resource for every provider and language pair in the provider catalog.
+ */
+function listProviderDocs(): ListResourcesResult {
+  return {
+    resources: getProviders().flatMap((provider) =>
+      documentedLanguages(provider).map((language) => ({
+        uri: `openfeature+doc://${provider}/${language}`,
+        name: resourceName(provider, language),
+        title: `${provider} provider docs (${language})`,
+        description: `How to install and configure the ${provider} OpenFeature provider for ${language}, from ${getProviderDocUrl(
+          provider,
+          language
+        )}`,
+        mimeType: "text/markdown",
+      }))
+    ),
+  };
+}
+
+/**
+ * Lists the per-provider index resources, one per provider with documentation.
+ */
+function listProviderIndexes(): ListResourcesResult {
+  return {
+    resources: getProviders()
+      .filter((provider) => documentedLanguages(provider).length > 0)
+      .map((provider) => ({
+        uri: `openfeature+doc://${provider}`,
+        name: `${provider} OpenFeature Provider Documentation Index`,
+        title: `${provider} provider docs index`,
+        description: `Languages with ${provider} OpenFeature provider documentation: ${documentedLanguages(
+          provider
+        ).join(", ")}`,
+        mimeType: "text/markdown",
+      })),
+  };
+}
+
+function readProviderIndex(
+  variables: Record<string, string | string[]>
+): ReadResourceResult {
+  const provider = providerSchema().parse(variables.provider);
+  const uri = `openfeature+doc://${provider}`;
+  const languages = documentedLanguages(provider);
+  if (languages.length === 0) {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "text/plain",
+          text: `No documentation mapping found for provider='${provider}'.`,
+        },
+      ],
+    };
+  }
+
+  const rows = languages.map(
+    (language) =>
+      `| ${language} | openfeature+doc://${provider}/${language} | ${getProviderDocUrl(
+        provider,
+        language
+      )} |`
+  );
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "text/markdown",
+        text: [
+          `# ${provider} OpenFeature provider documentation`,
+          "",
+          "| Language | Resource | Source |",
+          "| --- | --- | --- |",
+          ...rows,
+          "",
+        ].join("\n"),
+      },
+    ],
+  };
+}
+
 /**
- * Registers a resource template with the MCP server for OpenFeature provider documentation.
- * Creates a template that can fetch documentation for different providers and languages from external URLs.
- * The template uses the URI pattern: openfeature+doc://{provider}/{language}
- * Runs a simple fetch for the documentation and returns the HTML content.
+ * Reads provider documentation from the docs cache. HTML pages are reduced to
+ * their main content as Markdown unless the raw `html` format is requested.
+ */
+async function readProviderDoc(
+  variables: Record<string, string | string[]>,
+  format: DocFormat
+): Promise<ReadResourceResult> {
+  const { provider, language } = z
+    .object({ provider: providerSchema(), language: installTechnologySchema() })
+    .parse({ provider: variables.provider, language: variables.language });
+
+  const href = getProviderDocUrl(provider, language);
+  if (!href) {
+    return {
+      contents: [
+        {
+          uri: `openfeature+doc://${provider}/${language}`,
+          mimeType: "text/plain",
+          text: `No documentation mapping found for provider='${provider}' language='${language}'.`,
+        },
+      ],
+    };
+  }
+
+  try {
+    const result = await getProviderDoc(href);
+    const convert = format === "markdown" && isHtml(result.doc.contentType);
+    const contents: ReadResourceResult["contents"] = [
+      {
+        uri: href,
+        name: resourceName(provider, language),
+        mimeType: convert ? "text/markdown" : result.doc.contentType,
+        text: convert
+          ? htmlToMarkdown(result.doc.body, { baseUrl: href })
+          : result.doc.body,
+        _meta: {
+          source: result.source,
+          fetchedAt: result.doc.fetchedAt,
+          ageSeconds: result.ageSeconds,
+        },
+      },
+    ];
+    if (result.source === "stale") {
+      contents.push({
+        uri: href,
+        mimeType: "text/plain",
+        text: staleNotice(result.ageSeconds, result.refreshError),
+      });
+    }
+    return { contents };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      contents: [
+        {
+          uri: href,
+          mimeType: "text/plain",
+          text: `Error fetching documentation from ${href}: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Registers resource templates with the MCP server for OpenFeature provider documentation.
+ * Creates templates that can fetch documentation for different providers and languages from external URLs.
+ * - openfeature+doc://{provider}/{language}: main page content as Markdown
+ * - openfeature+doc://{provider}/{language}/html: the raw page as fetched
+ * - openfeature+doc://{provider}: index of the languages documented for a provider
+ * Documentation is served from the disk cache in `docsCache.ts`, so it keeps working offline.
  */
 export function registerProviderResources(server: McpServer): void {
   if (DISABLE_RESOURCES) {
     return;
   }
 
-  // Register a single Resource Template for provider docs: openfeature+doc://{provider}/{language}
-  const template = new ResourceTemplate(
-    "openfeature+doc://{provider}/{language}",
+  server.registerResource(
+    "openfeature_provider_doc",
+    docTemplate("openfeature+doc://{provider}/{language}", async () =>
+      listProviderDocs()
+    ),
     {
-      list: undefined,
-      complete: {
-        provider: async (value: string) =>
-          PROVIDERS.filter((p) =>
-            p.toLowerCase().includes((value || "").toLowerCase())
-          ),
-        language: async (value: string) =>
-          INSTALL_TECHNOLOGIES.filter((l) =>
-            l.toLowerCase().includes((value || "").toLowerCase())
-          ),
-      },
-    }
+      title: "OpenFeature Provider Docs",
+      description:
+        "Template for OpenFeature provider docs by provider and language, as Markdown.",
+      mimeType: "text/markdown",
+    },
+    async (_uri, variables) => readProviderDoc(variables, "markdown")
   );
 
   server.registerResource(
-    "openfeature_provider_doc",
-    template,
+    "openfeature_provider_doc_html",
+    docTemplate("openfeature+doc://{provider}/{language}/html", undefined),
     {
-      title: "OpenFeature Provider Docs",
+      title: "OpenFeature Provider Docs (raw HTML)",
       description:
-        "Template for OpenFeature provider docs by provider and language.",
+        "Template for the unprocessed OpenFeature provider docs page by provider and language.",
+      mimeType: "text/html",
     },
-    async (_uri, variables) => {
-      const { provider, language } = TemplateVarsSchema.parse({
-        provider: variables.provider,
-        language: variables.language,
-      });
+    async (_uri, variables) => readProviderDoc(variables, "html")
+  );
 
-      const href = PROVIDER_DOCS[provider]?.[language];
-      if (!href) {
-        return {
-          contents: [
-            {
-              uri: `openfeature+doc://${provider}/${language}`,
-              mimeType: "text/plain",
-              text: `No documentation mapping found for provider='${provider}' language='${language}'.`,
-            },
-          ],
-        };
-      }
-
-      try {
-        const response = await fetch(href);
-        if (!response.ok) {
-          return {
-            contents: [
-              {
-                uri: href,
-                name: resourceName(provider, language),
-                mimeType: "text/plain",
-                text: `Failed to fetch documentation (${response.status} ${response.statusText}) from ${href}.`,
-              },
-            ],
-          };
-        }
-        const body = await response.text();
-        const contentType = response.headers.get("content-type") || "text/html";
-        return {
-          contents: [
-            {
-              uri: href,
-              mimeType: contentType,
-              text: body,
-            },
-          ],
-        };
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        return {
-          contents: [
-            {
-              uri: href,
-              mimeType: "text/plain",
-              text: `Error fetching documentation from ${href}: ${message}`,
-            },
-          ],
-        };
-      }
-    }
+  server.registerResource(
+    "openfeature_provider_doc_index",
+    new ResourceTemplate("openfeature+doc://{provider}", {
+      list: async () => listProviderIndexes(),
+      complete: {
+        provider: async (value: string) => completeProvider(value),
+      },
+    }),
+    {
+      title: "OpenFeature Provider Docs Index",
+      description:
+        "Lists the languages with documentation for an OpenFeature provider.",
+      mimeType: "text/markdown",
+    },
+    async (_uri, variables) => readProviderIndex(variables)
   );
 }
 
@@ -131,15 +279,15 @@ export function registerProviderResources(server: McpServer): void {
  * Returns resource link objects that can be used in tool call results.
  */
 export function buildProviderResourceLinks(
-  providers: readonly ProviderName[],
-  technology: InstallTechnology
+  providers: readonly string[],
+  technology: string
 ): CallToolResult["content"] {
   if (DISABLE_RESOURCES) {
     return [];
   }
 
   return providers
-    .filter((providerName) => !!PROVIDER_DOCS[providerName]?.[technology])
+    .filter((providerName) => !!getProviderDocUrl(providerName, technology))
     .map((providerName) => ({
       type: "resource_link",
       uri: `openfeature+doc://${providerName}/${technology}`,
@@ -5,7 +5,13 @@ import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/
 import { registerInstallTools } from "./tools/installTools.js";
 import packageJson from "../package.json" with { type: "json" };
 import { registerProviderResources } from "./resources.js";
+import { registerGuidePrompts, registerInstallPrompts } from "./prompts.js";
 import { registerOFREPTools } from "./tools/ofrepTools.js";
+import { registerProjectTools } from "./tools/projectTools.js";
+import { registerMigrationTools } from "./tools/migrationTools.js";
+import { registerGuideTools } from "./tools/guideTools.js";
+import { logger } from "./logger.js";
+import { loadCatalogs } from "./catalog.js";
 
 export type RegisterToolWithErrorHandling = (
   name: string,
@@ -21,7 +27,7 @@ export type RegisterToolWithErrorHandling = (
 function handleToolError(error: unknown, toolName: string): CallToolResult {
   const errorMessage =
     error instanceof Error ? error.message : "Unknown error occurred";
-  console.error(`Tool ${toolName} error:`, errorMessage);
+  logger.error(`Tool ${toolName} error`, { error: errorMessage });
   return {
     content: [
       {
@@ -29,6 +35,7 @@ function handleToolError(error: unknown, toolName: string): CallToolResult {
         text: `Error in ${toolName}: ${errorMessage}`,
       },
     ],
+    isError: true,
   };
 }
 
@@ -53,9 +60,9 @@ export function createServer(): McpServer {
         _extra: unknown
       ): Promise<CallToolResult> => {
         try {
-          console.error("MCP tool invoke", { tool: name, args });
+          logger.info("MCP tool invoke", { tool: name, args });
           const result = await handler(args);
-          console.error("MCP tool success", { tool: name });
+          logger.info("MCP tool success", { tool: name });
           return result;
         } catch (error) {
           return handleToolError(error, name);
@@ -70,6 +77,11 @@ export function createServer(): McpServer {
   };
 
   registerInstallTools(registerToolWithErrorHandling);
+  registerInstallPrompts(server);
+  registerProjectTools(registerToolWithErrorHandling);
+  registerMigrationTools(registerToolWithErrorHandling);
+  registerGuideTools(registerToolWithErrorHandling);
+  registerGuidePrompts(server);
 
   registerProviderResources(server);
   registerOFREPTools(registerToolWithErrorHandling);
@@ -77,37 +89,52 @@ export function createServer(): McpServer {
   return server;
 }
 
+/**
+ * Installs the process-level signal and error handlers shared by every transport.
+ * `shutdown` runs once on SIGINT/SIGTERM before the process exits.
+ */
+export function registerProcessHandlers(
+  shutdown: () => Promise<void>
+): void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    logger.info(`Received ${signal}, shutting down.`);
+    shutdown()
+      .catch((err) => {
+        logger.error("Error during shutdown", { error: err });
+      })
+      .finally(() => process.exit(0));
+  };
+
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  process.on("uncaughtException", (err) => {
+    logger.error("Uncaught exception", { error: err });
+  });
+  process.on("unhandledRejection", (reason) => {
+    logger.error("Unhandled rejection", { error: reason });
+  });
+}
+
 export async function startServer(): Promise<void> {
-  // Error logs must be used here as stdout is used for MCP protocol messages
-  console.error("Initializing OpenFeature MCP local server", {
+  logger.info("Initializing OpenFeature MCP local server", {
     version: packageJson.version,
   });
+  await loadCatalogs();
 
   const server = createServer();
   const transport = new StdioServerTransport();
 
-  process.on("SIGINT", () => {
-    console.error("Received SIGINT, shutting down.");
-    process.exit(0);
-  });
-  process.on("SIGTERM", () => {
-    console.error("Received SIGTERM, shutting down.");
-    process.exit(0);
-  });
-  process.on("uncaughtException", (err) => {
-    console.error("Uncaught exception:", err);
-  });
-  process.on("unhandledRejection", (reason) => {
-    console.error("Unhandled rejection:", reason);
+  registerProcessHandlers(async () => {
+    await server.close();
   });
 
   transport.onclose = () => {
-    console.error("Stdio transport closed. Exiting server.");
+    logger.info("Stdio transport closed. Exiting server.");
     process.exit(0);
   };
 
   await server.connect(transport);
-  console.error("✅ OpenFeature MCP Server (stdio) started");
+  logger.info("✅ OpenFeature MCP Server (stdio) started");
 }
 
 export default startServer;
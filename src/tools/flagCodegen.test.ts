@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  flagSpecsFromEvaluation,
+  flagSpecsFromFlagFile,
+  generateFlagAccessors,
+} from "./flagCodegen.js";
+
+describe("flag accessor generation", () => {
+  const { specs } = flagSpecsFromEvaluation([
+    { key: "new-checkout", value: true, reason: "STATIC" },
+    { key: "theme", value: "dark", variant: "dark" },
+    { key: "max-items", value: 10 },
+    { key: "layout", value: { columns: 2, compact: false } },
+  ]);
+
+  it("should infer types from values and skip failed evaluations", () => {
+    const result = flagSpecsFromEvaluation([
+      { key: "ratio", value: 0.5 },
+      { key: "broken", errorCode: "PARSE_ERROR" },
+    ]);
+
+    expect(result.specs).toEqual([
+      { key: "ratio", type: "float", defaultValue: 0.5 },
+    ]);
+    expect(result.skipped).toEqual([
+      { key: "broken", reason: "Evaluation failed with PARSE_ERROR" },
+    ]);
+  });
+
+  it("should infer types from every variant of a flag file", () => {
+    const result = flagSpecsFromFlagFile({
+      flags: {
+        "rate-limit": {
+          state: "ENABLED",
+          variants: { low: 10, high: 12.5 },
+          defaultVariant: "low",
+        },
+        mixed: {
+          state: "ENABLED",
+          variants: { a: "on", b: 1 },
+          defaultVariant: "a",
+        },
+      },
+    });
+
+    expect(result.specs).toEqual([
+      { key: "rate-limit", type: "float", defaultValue: 10 },
+    ]);
+    expect(result.skipped).toEqual([
+      { key: "mixed", reason: "Variants have values of different types" },
+    ]);
+  });
+
+  it("should generate a TypeScript module for Node.js", () => {
+    const generated = generateFlagAccessors("nodejs", specs, "flags.json");
+
+    expect(generated).toMatchObject({
+      language: "typescript",
+      fileName: "flags.ts",
+    });
+    expect(generated.flags.map((flag) => flag.accessor)).toEqual([
+      "getLayout",
+      "getMaxItems",
+      "getNewCheckoutEnabled",
+      "getTheme",
+    ]);
+    expect(generated.code).toContain(
+      'import type { Client, EvaluationContext, JsonValue } from "@openfeature/server-sdk";'
+    );
+    expect(generated.code).toContain('  NewCheckout: "new-checkout",');
+    expect(generated.code).toContain(
+      [
+        "export function getNewCheckoutEnabled(client: Client, context?: EvaluationContext): Promise<boolean> {",
+        "  return client.getBooleanValue(FlagKeys.NewCheckout, true, context);",
+        "}",
+      ].join("\n")
+    );
+    expect(generated.code).toContain(
+      'client.getObjectValue<JsonValue>(FlagKeys.Layout, {"columns":2,"compact":false}, context)'
+    );
+  });
+
+  it("should generate React hooks", () => {
+    const { code } = generateFlagAccessors("react", specs.slice(0, 2), "x");
+
+    expect(code).toContain(
+      'import { useBooleanFlagValue, useStringFlagValue } from "@openfeature/react-sdk";'
+    );
+    expect(code).toContain(
+      "export function useNewCheckoutEnabled(): boolean {"
+    );
+  });
+
+  it("should generate Go constants and helpers", () => {
+    const { code } = generateFlagAccessors("go", specs, "flags.json");
+
+    expect(code).toMatch(/^\/\/ Code generated .* DO NOT EDIT\.$/m);
+    expect(code).toContain('\tFlagMaxItems = "max-items"');
+    expect(code).toContain(
+      [
+        "func MaxItems(ctx context.Context, client openfeature.IClient, evalCtx openfeature.EvaluationContext) (int64, error) {",
+        "\treturn client.IntValue(ctx, FlagMaxItems, 10, evalCtx)",
+        "}",
+      ].join("\n")
+    );
+    expect(code).toContain('map[string]any{"columns": 2, "compact": false}');
+  });
+
+  it("should generate a Python enum and functions", () => {
+    const { code, fileName } = generateFlagAccessors("python", specs, "x");
+
+    expect(fileName).toBe("flags.py");
+    expect(code).toContain('class FlagKey(str, Enum):\n    LAYOUT = "layout"');
+    expect(code).toContain("def get_new_checkout_enabled(");
+    expect(code).toContain("FlagKey.NEW_CHECKOUT.value, True, context");
+    expect(code).toContain('{"columns": 2, "compact": False}');
+  });
+
+  it("should keep identifiers unique when keys differ only in separators", () => {
+    const generated = generateFlagAccessors(
+      "java",
+      [
+        { key: "new-checkout", type: "boolean", defaultValue: false },
+        { key: "new_checkout", type: "boolean", defaultValue: false },
+      ],
+      "x"
+    );
+
+    expect(generated.flags.map((flag) => flag.accessor)).toEqual([
+      "getNewCheckoutEnabled",
+      "getNewCheckoutEnabled2",
+    ]);
+    expect(generated.code).toContain(
+      'public static final String NEW_CHECKOUT2 = "new_checkout";'
+    );
+  });
+});
@@ -0,0 +1,783 @@
+import type { FlagFile } from "../localFlags.js";
+import {
+  flagValueType,
+  type BulkFlagEvaluation,
+  type FlagValue,
+} from "./ofrepSchemas.js";
+import type { InstallTechnology } from "./promptsBundle.generated.js";
+
+export type AccessorType =
+  | "boolean"
+  | "string"
+  | "integer"
+  | "float"
+  | "object";
+
+export type FlagSpec = {
+  key: string;
+  type: AccessorType;
+  defaultValue: FlagValue;
+};
+
+export type SkippedFlag = { key: string; reason: string };
+
+export type GeneratedAccessors = {
+  technology: InstallTechnology;
+  language: string;
+  fileName: string;
+  flags: Array<FlagSpec & { accessor: string }>;
+  code: string;
+};
+
+/**
+ * Infers an accessor type from the values a flag can take. Numbers are
+ * integers only when every value is a whole number.
+ */
+function inferType(values: FlagValue[]): AccessorType | undefined {
+  const kinds = new Set(
+    values.map((value): AccessorType | undefined => {
+      const type = flagValueType(value);
+      if (type === "number") {
+        return Number.isInteger(value) ? "integer" : "float";
+      }
+      return type;
+    })
+  );
+  if (kinds.size === 2 && kinds.has("integer") && kinds.has("float")) {
+    return "float";
+  }
+  return kinds.size === 1 ? [...kinds][0] : undefined;
+}
+
+/**
+ * Builds flag specs from a bulk evaluation. Flags that failed to evaluate have
+ * no value to infer a type from and are skipped.
+ */
+export function flagSpecsFromEvaluation(flags: BulkFlagEvaluation[]): {
+  specs: FlagSpec[];
+  skipped: SkippedFlag[];
+} {
+  const specs: FlagSpec[] = [];
+  const skipped: SkippedFlag[] = [];
+  for (const flag of flags) {
+    if ("errorCode" in flag) {
+      skipped.push({
+        key: flag.key,
+        reason: `Evaluation failed with ${flag.errorCode}`,
+      });
+      continue;
+    }
+    specs.push({
+      key: flag.key,
+      type: inferType([flag.value]) as AccessorType,
+      defaultValue: flag.value,
+    });
+  }
+  return { specs, skipped };
+}
+
+/**
+ * Builds flag specs from a flagd-style flag file, using every variant to infer
+ * the type and the default variant as the default value.
+ */
+export function flagSpecsFromFlagFile(file: FlagFile): {
+  specs: FlagSpec[];
+  skipped: SkippedFlag[];
+} {
+  const specs: FlagSpec[] = [];
+  const skipped: SkippedFlag[] = [];
+  for (const [key, flag] of Object.entries(file.flags)) {
+    const type = inferType(Object.values(flag.variants));
+    if (!type) {
+      skipped.push({ key, reason: "Variants have values of different types" });
+      continue;
+    }
+    specs.push({ key, type, defaultValue: flag.variants[flag.defaultVariant] });
+  }
+  return { specs, skipped };
+}
+
+function words(key: string): string[] {
+  const parts = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((part) => part.length > 0)
+    .map((part) => part.toLowerCase());
+  if (parts.length === 0 || /^\d/.test(parts[0])) {
+    parts.unshift("flag");
+  }
+  return parts;
+}
+
+function pascalCase(parts: string[]): string {
+  return parts.map((part) => part[0].toUpperCase() + part.slice(1)).join("");
+}
+
+function camelCase(parts: string[]): string {
+  const pascal = pascalCase(parts);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function snakeCase(parts: string[]): string {
+  return parts.join("_");
+}
+
+function constantCase(parts: string[]): string {
+  return snakeCase(parts).toUpperCase();
+}
+
+/**
+ * Words of the accessor name: boolean flags read as a condition, e.g.
+ * `new-checkout` becomes `getNewCheckoutEnabled`.
+ */
+function accessorWords(spec: FlagSpec): string[] {
+  const parts = words(spec.key);
+  const last = parts[parts.length - 1];
+  return spec.type === "boolean" && last !== "enabled" && last !== "disabled"
+    ? [...parts, "enabled"]
+    : parts;
+}
+
+type LiteralSyntax = {
+  null: string;
+  boolean?: (value: boolean) => string;
+  string: (value: string) => string;
+  array: (items: string[]) => string;
+  object: (entries: Array<[string, string]>) => string;
+};
+
+function renderLiteral(value: unknown, syntax: LiteralSyntax): string {
+  if (value === null || value === undefined) {
+    return syntax.null;
+  }
+  if (typeof value === "string") {
+    return syntax.string(value);
+  }
+  if (typeof value === "boolean" && syntax.boolean) {
+    return syntax.boolean(value);
+  }
+  if (Array.isArray(value)) {
+    return syntax.array(value.map((item) => renderLiteral(item, syntax)));
+  }
+  if (typeof value === "object") {
+    return syntax.object(
+      Object.entries(value).map(([k, v]) => [
+        syntax.string(k),
+        renderLiteral(v, syntax),
+      ])
+    );
+  }
+  return String(value);
+}
+
+const PYTHON_LITERAL: LiteralSyntax = {
+  null: "None",
+  boolean: (value) => (value ? "True" : "False"),
+  string: (value) => JSON.stringify(value),
+  array: (items) => `[${items.join(", ")}]`,
+  object: (entries) => `{${entries.map(([k, v]) => `${k}: ${v}`).join(", ")}}`,
+};
+
+const GO_LITERAL: LiteralSyntax = {
+  null: "nil",
+  string: (value) => JSON.stringify(value),
+  array: (items) => `[]any{${items.join(", ")}}`,
+  object: (entries) =>
+    `map[string]any{${entries.map(([k, v]) => `${k}: ${v}`).join(", ")}}`,
+};
+
+const RUBY_LITERAL: LiteralSyntax = {
+  null: "nil",
+  string: (value) => JSON.stringify(value).replace(/#\{/g, "\\#{"),
+  array: (items) => `[${items.join(", ")}]`,
+  object: (entries) =>
+    `{ ${entries.map(([k, v]) => `${k} => ${v}`).join(", ")} }`,
+};
+
+const PHP_LITERAL: LiteralSyntax = {
+  null: "null",
+  string: (value) => `'${value.replace(/[\\']/g, "\\$&")}'`,
+  array: (items) => `[${items.join(", ")}]`,
+  object: (entries) =>
+    `[${entries.map(([k, v]) => `${k} => ${v}`).join(", ")}]`,
+};
+
+function floatLiteral(value: unknown): string {
+  const text = String(value);
+  return /[.eE]/.test(text) ? text : `${text}.0`;
+}
+
+type Accessor = { spec: FlagSpec; name: string; constant: string };
+
+type Generator = {
+  language: string;
+  fileName: string;
+  name: (parts: string[]) => string;
+  constant: (parts: string[]) => string;
+  render: (accessors: Accessor[], header: string) => string;
+};
+
+const TS_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["Boolean", "boolean"],
+  string: ["String", "string"],
+  integer: ["Number", "number"],
+  float: ["Number", "number"],
+  object: ["Object", "JsonValue"],
+};
+
+function tsKeys(accessors: Accessor[]): string[] {
+  return [
+    "export const FlagKeys = {",
+    ...accessors.map(
+      ({ spec, constant }) => `  ${constant}: ${JSON.stringify(spec.key)},`
+    ),
+    "} as const;",
+    "",
+    "export type FlagKey = (typeof FlagKeys)[keyof typeof FlagKeys];",
+  ];
+}
+
+function tsTypes(accessors: Accessor[], types: string[]): string[] {
+  return accessors.some(({ spec }) => spec.type === "object")
+    ? [...types, "JsonValue"]
+    : types;
+}
+
+function tsCall(method: string, { spec, constant }: Accessor): string {
+  const generic = spec.type === "object" ? "<JsonValue>" : "";
+  return `${method}${generic}(FlagKeys.${constant}, ${JSON.stringify(
+    spec.defaultValue
+  )}`;
+}
+
+function tsServer(accessors: Accessor[], header: string): string {
+  return [
+    `// ${header}`,
+    `import type { ${tsTypes(accessors, ["Client", "EvaluationContext"]).join(
+      ", "
+    )} } from "@openfeature/server-sdk";`,
+    "",
+    ...tsKeys(accessors),
+    ...accessors.flatMap((accessor) => {
+      const [method, type] = TS_METHODS[accessor.spec.type];
+      return [
+        "",
+        `/** Evaluates \`${accessor.spec.key}\`. */`,
+        `export function ${accessor.name}(client: Client, context?: EvaluationContext): Promise<${type}> {`,
+        `  return client.${tsCall(`get${method}Value`, accessor)}, context);`,
+        "}",
+      ];
+    }),
+    "",
+  ].join("\n");
+}
+
+function tsWeb(accessors: Accessor[], header: string): string {
+  return [
+    `// ${header}`,
+    `import type { ${tsTypes(accessors, ["Client"]).join(
+      ", "
+    )} } from "@openfeature/web-sdk";`,
+    "",
+    ...tsKeys(accessors),
+    ...accessors.flatMap((accessor) => {
+      const [method, type] = TS_METHODS[accessor.spec.type];
+      return [
+        "",
+        `/** Evaluates \`${accessor.spec.key}\` with the global evaluation context. */`,
+        `export function ${accessor.name}(client: Client): ${type} {`,
+        `  return client.${tsCall(`get${method}Value`, accessor)});`,
+        "}",
+      ];
+    }),
+    "",
+  ].join("\n");
+}
+
+function tsReact(accessors: Accessor[], header: string): string {
+  const hooks = [
+    ...new Set(
+      accessors.map(({ spec }) => `use${TS_METHODS[spec.type][0]}FlagValue`)
+    ),
+  ].sort();
+  return [
+    `// ${header}`,
+    `import { ${tsTypes(accessors, hooks)
+      .map((name) => (name === "JsonValue" ? "type JsonValue" : name))
+      .join(", ")} } from "@openfeature/react-sdk";`,
+    "",
+    ...tsKeys(accessors),
+    ...accessors.flatMap((accessor) => {
+      const [method, type] = TS_METHODS[accessor.spec.type];
+      return [
+        "",
+        `/** Evaluates \`${accessor.spec.key}\` and re-renders when it changes. */`,
+        `export function ${accessor.name}(): ${type} {`,
+        `  return ${tsCall(`use${method}FlagValue`, accessor)});`,
+        "}",
+      ];
+    }),
+    "",
+  ].join("\n");
+}
+
+const GO_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["BooleanValue", "bool"],
+  string: ["StringValue", "string"],
+  integer: ["IntValue", "int64"],
+  float: ["FloatValue", "float64"],
+  object: ["ObjectValue", "any"],
+};
+
+function goModule(accessors: Accessor[], header: string): string {
+  return [
+    // Go tooling recognizes generated files by this exact form
+    `// Code ${header
+      .replace("Generated", "generated")
+      .replace("Do not edit.", "DO NOT EDIT.")}`,
+    "",
+    "package flags",
+    "",
+    "import (",
+    '\t"context"',
+    "",
+    '\t"github.com/open-feature/go-sdk/openfeature"',
+    ")",
+    "",
+    "// Flag keys.",
+    "const (",
+    ...accessors.map(
+      ({ spec, constant }) => `\t${constant} = ${JSON.stringify(spec.key)}`
+    ),
+    ")",
+    ...accessors.flatMap(({ spec, name, constant }) => {
+      const [method, type] = GO_METHODS[spec.type];
+      const fallback =
+        spec.type === "float"
+          ? floatLiteral(spec.defaultValue)
+          : renderLiteral(spec.defaultValue, GO_LITERAL);
+      return [
+        "",
+        `// ${name} evaluates ${spec.key}.`,
+        `func ${name}(ctx context.Context, client openfeature.IClient, evalCtx openfeature.EvaluationContext) (${type}, error) {`,
+        `\treturn client.${method}(ctx, ${constant}, ${fallback}, evalCtx)`,
+        "}",
+      ];
+    }),
+    "",
+  ].join("\n");
+}
+
+const PYTHON_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["get_boolean_value", "bool"],
+  string: ["get_string_value", "str"],
+  integer: ["get_integer_value", "int"],
+  float: ["get_float_value", "float"],
+  object: ["get_object_value", "Any"],
+};
+
+function pythonModule(accessors: Accessor[], header: string): string {
+  return [
+    `# ${header}`,
+    "from enum import Enum",
+    "from typing import Any, Optional",
+    "",
+    "from openfeature.client import OpenFeatureClient",
+    "from openfeature.evaluation_context import EvaluationContext",
+    "",
+    "",
+    "class FlagKey(str, Enum):",
+    ...accessors.map(
+      ({ spec, constant }) => `    ${constant} = ${JSON.stringify(spec.key)}`
+    ),
+    ...accessors.flatMap(({ spec, name, constant }) => {
+      const [method, type] = PYTHON_METHODS[spec.type];
+      return [
+        "",
+        "",
+        `def ${name}(`,
+        "    client: OpenFeatureClient, context: Optional[EvaluationContext] = None",
+        `) -> ${type}:`,
+        `    """Evaluates \`${spec.key}\`."""`,
+        `    return client.${method}(`,
+        `        FlagKey.${constant}.value, ${renderLiteral(
+          spec.defaultValue,
+          PYTHON_LITERAL
+        )}, context`,
+        "    )",
+      ];
+    }),
+    "",
+  ].join("\n");
+}
+
+const JVM_METHODS: Record<
+  AccessorType,
+  [method: string, javaType: string, kotlinType: string]
+> = {
+  boolean: ["getBooleanValue", "Boolean", "Boolean"],
+  string: ["getStringValue", "String", "String"],
+  integer: ["getIntegerValue", "Integer", "Int"],
+  float: ["getDoubleValue", "Double", "Double"],
+  object: ["getObjectValue", "Value", "Value"],
+};
+
+function jvmFallback(spec: FlagSpec, objectFallback: string): string {
+  switch (spec.type) {
+    case "object":
+      return objectFallback;
+    case "float":
+      return floatLiteral(spec.defaultValue);
+    default:
+      return JSON.stringify(spec.defaultValue);
+  }
+}
+
+function javaClass(accessors: Accessor[], header: string): string {
+  return [
+    `// ${header}`,
+    "import dev.openfeature.sdk.Client;",
+    "import dev.openfeature.sdk.EvaluationContext;",
+    "import dev.openfeature.sdk.Value;",
+    "",
+    "public final class Flags {",
+    ...accessors.map(
+      ({ spec, constant }) =>
+        `    public static final String ${constant} = ${JSON.stringify(
+          spec.key
+        )};`
+    ),
+    "",
+    "    private Flags() {}",
+    ...accessors.flatMap(({ spec, name, constant }) => {
+      const [method, type] = JVM_METHODS[spec.type];
+      return [
+        "",
+        `    /** Evaluates {@code ${spec.key}}. */`,
+        `    public static ${type} ${name}(Client client, EvaluationContext ctx) {`,
+        `        return client.${method}(${constant}, ${jvmFallback(
+          spec,
+          "new Value()"
+        )}, ctx);`,
+        "    }",
+      ];
+    }),
+    "}",
+    "",
+  ].join("\n");
+}
+
+function kotlinObject(accessors: Accessor[], header: string): string {
+  return [
+    `// ${header}`,
+    "import dev.openfeature.kotlin.sdk.Client",
+    "import dev.openfeature.kotlin.sdk.Value",
+    "",
+    "object Flags {",
+    ...accessors.map(
+      ({ spec, constant }) =>
+        `    const val ${constant} = ${JSON.stringify(spec.key)}`
+    ),
+    ...accessors.flatMap(({ spec, name, constant }) => {
+      const [method, , type] = JVM_METHODS[spec.type];
+      return [
+        "",
+        `    /** Evaluates \`${spec.key}\` with the global evaluation context. */`,
+        `    fun ${name}(client: Client): ${type} =`,
+        `        client.${method}(${constant}, ${jvmFallback(
+          spec,
+          "Value.Null"
+        )})`,
+      ];
+    }),
+    "}",
+    "",
+  ].join("\n");
+}
+
+const DOTNET_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["GetBooleanValueAsync", "bool"],
+  string: ["GetStringValueAsync", "string"],
+  integer: ["GetIntegerValueAsync", "int"],
+  float: ["GetDoubleValueAsync", "double"],
+  object: ["GetObjectValueAsync", "Value"],
+};
+
+function dotnetClass(accessors: Accessor[], header: string): string {
+  return [
+    `// <auto-generated>${header}</auto-generated>`,
+    "using System.Threading.Tasks;",
+    "using OpenFeature;",
+    "using OpenFeature.Model;",
+    "",
+    "public static class FlagKeys",
+    "{",
+    ...accessors.map(
+      ({ spec, constant }) =>
+        `    public const string ${constant} = ${JSON.stringify(spec.key)};`
+    ),
+    "}",
+    "",
+    "public static class Flags",
+    "{",
+    ...accessors.flatMap(({ spec, name, constant }, index) => {
+      const [method, type] = DOTNET_METHODS[spec.type];
+      return [
+        ...(index > 0 ? [""] : []),
+        `    /// <summary>Evaluates <c>${spec.key}</c>.</summary>`,
+        `    public static Task<${type}> ${name}(IFeatureClient client, EvaluationContext? context = null) =>`,
+        `        client.${method}(FlagKeys.${constant}, ${jvmFallback(
+          spec,
+          "new Value()"
+        )}, context);`,
+      ];
+    }),
+    "}",
+    "",
+  ].join("\n");
+}
+
+const PHP_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["getBooleanValue", "bool"],
+  string: ["getStringValue", "string"],
+  integer: ["getIntegerValue", "int"],
+  float: ["getFloatValue", "float"],
+  object: ["getObjectValue", "mixed"],
+};
+
+function phpClass(accessors: Accessor[], header: string): string {
+  return [
+    "<?php",
+    "",
+    `// ${header}`,
+    "",
+    "declare(strict_types=1);",
+    "",
+    "use OpenFeature\\interfaces\\flags\\Client;",
+    "use OpenFeature\\interfaces\\flags\\EvaluationContext;",
+    "",
+    "final class Flags",
+    "{",
+    ...accessors.map(
+      ({ spec, constant }) =>
+        `    public const ${constant} = ${PHP_LITERAL.string(spec.key)};`
+    ),
+    ...accessors.flatMap(({ spec, name, constant }) => {
+      const [method, type] = PHP_METHODS[spec.type];
+      return [
+        "",
+        `    /** Evaluates \`${spec.key}\`. */`,
+        `    public static function ${name}(Client $client, ?EvaluationContext $context = null): ${type}`,
+        "    {",
+        `        return $client->${method}(self::${constant}, ${renderLiteral(
+          spec.defaultValue,
+          PHP_LITERAL
+        )}, $context);`,
+        "    }",
+      ];
+    }),
+    "}",
+    "",
+  ].join("\n");
+}
+
+const RUBY_METHODS: Record<AccessorType, string> = {
+  boolean: "fetch_boolean_value",
+  string: "fetch_string_value",
+  integer: "fetch_integer_value",
+  float: "fetch_float_value",
+  object: "fetch_object_value",
+};
+
+function rubyModule(accessors: Accessor[], header: string): string {
+  return [
+    "# frozen_string_literal: true",
+    "",
+    `# ${header}`,
+    "module Flags",
+    ...accessors.map(
+      ({ spec, constant }) => `  ${constant} = ${JSON.stringify(spec.key)}`
+    ),
+    ...accessors.flatMap(({ spec, name, constant }) => [
+      "",
+      `  # Evaluates \`${spec.key}\`.`,
+      `  def self.${name}(client, context = nil)`,
+      `    client.${RUBY_METHODS[spec.type]}(`,
+      `      flag_key: ${constant},`,
+      `      default_value: ${renderLiteral(spec.defaultValue, RUBY_LITERAL)},`,
+      "      evaluation_context: context",
+      "    )",
+      "  end",
+    ]),
+    "end",
+    "",
+  ].join("\n");
+}
+
+const SWIFT_METHODS: Record<AccessorType, [method: string, type: string]> = {
+  boolean: ["getBooleanValue", "Bool"],
+  string: ["getStringValue", "String"],
+  integer: ["getIntegerValue", "Int64"],
+  float: ["getDoubleValue", "Double"],
+  object: ["getObjectValue", "Value"],
+};
+
+function swiftModule(accessors: Accessor[], header: string): string {
+  return [
+    `// ${header}`,
+    "import OpenFeature",
+    "",
+    "enum FlagKey {",
+    ...accessors.map(
+      ({ spec, constant }) =>
+        `    static let ${constant} = ${JSON.stringify(spec.key)}`
+    ),
+    "}",
+    "",
+    "enum Flags {",
+    ...accessors.flatMap(({ spec, name, constant }, index) => {
+      const [method, type] = SWIFT_METHODS[spec.type];
+      return [
+        ...(index > 0 ? [""] : []),
+        `    /// Evaluates \`${spec.key}\` with the global evaluation context.`,
+        `    static func ${name}(_ client: Client) -> ${type} {`,
+        `        client.${method}(key: FlagKey.${constant}, defaultValue: ${jvmFallback(
+          spec,
+          ".null"
+        )})`,
+        "    }",
+      ];
+    }),
+    "}",
+    "",
+  ].join("\n");
+}
+
+const TS_SERVER: Omit<Generator, "render"> = {
+  language: "typescript",
+  fileName: "flags.ts",
+  name: (parts) => `get${pascalCase(parts)}`,
+  constant: pascalCase,
+};
+
+const GENERATORS: Partial<Record<InstallTechnology, Generator>> = {
+  nodejs: { ...TS_SERVER, render: tsServer },
+  nestjs: { ...TS_SERVER, render: tsServer },
+  javascript: { ...TS_SERVER, render: tsWeb },
+  react: {
+    ...TS_SERVER,
+    name: (parts) => `use${pascalCase(parts)}`,
+    render: tsReact,
+  },
+  go: {
+    language: "go",
+    fileName: "flags.go",
+    name: pascalCase,
+    constant: (parts) => `Flag${pascalCase(parts)}`,
+    render: goModule,
+  },
+  python: {
+    language: "python",
+    fileName: "flags.py",
+    name: (parts) => `get_${snakeCase(parts)}`,
+    constant: constantCase,
+    render: pythonModule,
+  },
+  java: {
+    language: "java",
+    fileName: "Flags.java",
+    name: (parts) => `get${pascalCase(parts)}`,
+    constant: constantCase,
+    render: javaClass,
+  },
+  kotlin: {
+    language: "kotlin",
+    fileName: "Flags.kt",
+    name: (parts) => `get${pascalCase(parts)}`,
+    constant: constantCase,
+    render: kotlinObject,
+  },
+  dotnet: {
+    language: "csharp",
+    fileName: "Flags.cs",
+    name: (parts) => `Get${pascalCase(parts)}Async`,
+    constant: pascalCase,
+    render: dotnetClass,
+  },
+  php: {
+    language: "php",
+    fileName: "Flags.php",
+    name: (parts) => `get${pascalCase(parts)}`,
+    constant: constantCase,
+    render: phpClass,
+  },
+  ruby: {
+    language: "ruby",
+    fileName: "flags.rb",
+    name: snakeCase,
+    constant: constantCase,
+    render: rubyModule,
+  },
+  swift: {
+    language: "swift",
+    fileName: "Flags.swift",
+    name: camelCase,
+    constant: camelCase,
+    render: swiftModule,
+  },
+};
+
+/**
+ * Makes identifiers unique by appending a counter, since different keys such
+ * as `new-checkout` and `new_checkout` map to the same name.
+ */
+function uniqueNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name}${count}` : name;
+  });
+}
+
+/**
+ * Generates a source file with one key constant and one typed accessor per
+ * flag for the given technology.
+ */
+export function generateFlagAccessors(
+  technology: InstallTechnology,
+  specs: FlagSpec[],
+  source: string
+): GeneratedAccessors {
+  const generator = GENERATORS[technology];
+  if (!generator) {
+    throw new Error(
+      `Accessor generation is not supported for '${technology}'. Supported technologies: ${Object.keys(
+        GENERATORS
+      ).join(", ")}`
+    );
+  }
+  const sorted = [...specs].sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0
+  );
+  const names = uniqueNames(
+    sorted.map((spec) => generator.name(accessorWords(spec)))
+  );
+  const constants = uniqueNames(
+    sorted.map((spec) => generator.constant(words(spec.key)))
+  );
+  const accessors = sorted.map((spec, index) => ({
+    spec,
+    name: names[index],
+    constant: constants[index],
+  }));
+
+  const header = `Generated by openfeature-mcp from ${source}. Do not edit.`;
+  return {
+    technology,
+    language: generator.language,
+    fileName: generator.fileName,
+    flags: accessors.map(({ spec, name }) => ({ ...spec, accessor: name })),
+    code: generator.render(accessors, header),
+  };
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  crossCheckUsages,
+  lineLocator,
+  scanFlagUsage,
+  scanSource,
+} from "./flagUsage.js";
+
+describe("scanSource", () => {
+  it("should read keys, types and defaults from JavaScript calls", () => {
+    const source = [
+      "const client = OpenFeature.getClient();",
+      'const enabled = await client.getBooleanValue("new-checkout", false);',
+      "const theme = client.getStringDetails(",
+      "  'theme',",
+      '  "light",',
+      "  { targetingKey: user.id }",
+      ");",
+      "const limit = client.getNumberValue(`rate-limit`, 100);",
+      'const cfg = client.getObjectValue("layout", { columns: 2 });',
+    ].join("\n");
+
+    expect(scanSource(source, "src/app.ts")).toEqual([
+      {
+        key: "new-checkout",
+        type: "boolean",
+        defaultValue: false,
+        method: "getBooleanValue",
+        file: "src/app.ts",
+        line: 2,
+        location: "src/app.ts:2",
+      },
+      expect.objectContaining({
+        key: "theme",
+        type: "string",
+        defaultValue: "light",
+        line: 3,
+      }),
+      expect.objectContaining({
+        key: "rate-limit",
+        type: "number",
+        defaultValue: 100,
+      }),
+      expect.objectContaining({
+        key: "layout",
+        type: "object",
+        defaultExpression: "{ columns: 2 }",
+      }),
+    ]);
+  });
+
+  it("should infer the type of React useFlag from its default value", () => {
+    const usages = scanSource(
+      [
+        'const { value } = useFlag("banner-text", "Welcome");',
+        'const show = useBooleanFlagValue("show-banner", true);',
+      ].join("\n"),
+      "Banner.tsx"
+    );
+
+    expect(usages).toEqual([
+      expect.objectContaining({
+        key: "banner-text",
+        type: "string",
+        method: "useFlag",
+      }),
+      expect.objectContaining({ key: "show-banner", type: "boolean" }),
+    ]);
+  });
+
+  it("should skip the Go context argument and read .NET async calls", () => {
+    expect(
+      scanSource(
+        'v, _ := client.IntValue(ctx, "max-items", 10, evalCtx)',
+        "main.go"
+      )
+    ).toEqual([
+      expect.objectContaining({
+        key: "max-items",
+        type: "number",
+        defaultValue: 10,
+        method: "IntValue",
+      }),
+    ]);
+
+    expect(
+      scanSource(
+        'var color = await client.GetStringValueAsync("color", "blue");',
+        "Program.cs"
+      )
+    ).toEqual([expect.objectContaining({ key: "color", type: "string" })]);
+  });
+
+  it("should read Python and Ruby named arguments", () => {
+    expect(
+      scanSource(
+        'client.get_boolean_value(flag_key="beta", default_value=True)',
+        "app.py"
+      )
+    ).toEqual([
+      expect.objectContaining({
+        key: "beta",
+        type: "boolean",
+        defaultValue: true,
+      }),
+    ]);
+
+    expect(
+      scanSource(
+        'client.fetch_string_value(flag_key: "greeting", default_value: "hi")',
+        "app.rb"
+      )
+    ).toEqual([
+      expect.objectContaining({ key: "greeting", defaultValue: "hi" }),
+    ]);
+  });
+
+  it("should read NestJS decorators and report non-literal keys", () => {
+    const usages = scanSource(
+      [
+        "@BooleanFeatureFlag({ flagKey: 'dark-mode', defaultValue: false })",
+        "client.getBooleanValue(FLAG_NAMES.search, defaultSearch);",
+      ].join("\n"),
+      "app.controller.ts"
+    );
+
+    expect(usages).toEqual([
+      expect.objectContaining({
+        key: "dark-mode",
+        type: "boolean",
+        defaultValue: false,
+      }),
+      expect.objectContaining({
+        keyExpression: "FLAG_NAMES.search",
+        defaultExpression: "defaultSearch",
+        line: 2,
+      }),
+    ]);
+    expect(usages[1].key).toBeUndefined();
+  });
+});
+
+describe("lineLocator", () => {
+  it("should map indexes to line numbers", () => {
+    const source = "a\nbc\n\nd";
+    const lineAt = lineLocator(source);
+
+    expect([0, 1, 2, 4, 5, 6, 7].map(lineAt)).toEqual([1, 1, 2, 2, 3, 4, 4]);
+  });
+});
+
+describe("scanFlagUsage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-usage-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should scan source files and skip dependency directories", async () => {
+    await mkdir(join(dir, "src"));
+    await mkdir(join(dir, "node_modules", "lib"), { recursive: true });
+    await writeFile(
+      join(dir, "src", "index.ts"),
+      'client.getBooleanValue("feature-a", false);'
+    );
+    await writeFile(
+      join(dir, "node_modules", "lib", "index.js"),
+      'client.getBooleanValue("feature-b", false);'
+    );
+    await writeFile(join(dir, "README.md"), 'getBooleanValue("feature-c")');
+
+    const scan = await scanFlagUsage(dir);
+
+    expect(scan).toMatchObject({ filesScanned: 1, truncated: false });
+    expect(scan.usages.map((usage) => usage.location)).toEqual([
+      join("src", "index.ts") + ":1",
+    ]);
+  });
+});
+
+describe("crossCheckUsages", () => {
+  it("should report missing, mismatched and unreferenced flags", () => {
+    const usages = scanSource(
+      [
+        'client.getBooleanValue("checkout", false);',
+        'client.getStringValue("checkout", "off");',
+        'client.getNumberValue("unknown", 1);',
+        "client.getBooleanValue(dynamicKey, false);",
+      ].join("\n"),
+      "app.ts"
+    );
+
+    const result = crossCheckUsages(usages, [
+      { key: "checkout", value: true, reason: "STATIC" },
+      { key: "legacy", value: "v1", reason: "STATIC" },
+      { key: "unknown", errorCode: "FLAG_NOT_FOUND" },
+    ]);
+
+    expect(result).toMatchObject({
+      missingFromService: [{ key: "unknown", locations: ["app.ts:3"] }],
+      typeMismatches: [
+        {
+          key: "checkout",
+          codeType: "string",
+          serviceType: "boolean",
+          locations: ["app.ts:2"],
+        },
+      ],
+      unreferenced: ["legacy"],
+    });
+    expect(result.notes[0]).toContain("app.ts:4");
+  });
+});
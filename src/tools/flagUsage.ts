@@ -0,0 +1,473 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { extname, join, relative, resolve } from "node:path";
+import {
+  flagValueType,
+  type BulkFlagEvaluation,
+  type FlagValueType,
+} from "./ofrepSchemas.js";
+
+export type FlagUsage = {
+  /** Flag key, or undefined when the key is not a string literal. */
+  key?: string;
+  /** Source text of the key argument when it is not a string literal. */
+  keyExpression?: string;
+  type?: FlagValueType;
+  /** Default value when it is a literal. */
+  defaultValue?: unknown;
+  /** Source text of the default value when it is not a literal. */
+  defaultExpression?: string;
+  method: string;
+  file: string;
+  line: number;
+  location: string;
+};
+
+export type FlagUsageScan = {
+  directory: string;
+  filesScanned: number;
+  usages: FlagUsage[];
+  truncated: boolean;
+};
+
+export type UsageCrossCheck = {
+  missingFromService: Array<{ key: string; locations: string[] }>;
+  typeMismatches: Array<{
+    key: string;
+    codeType: FlagValueType;
+    serviceType: FlagValueType;
+    locations: string[];
+  }>;
+  unreferenced: string[];
+  notes: string[];
+};
+
+const SOURCE_EXTENSIONS = new Set([
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".go",
+  ".java",
+  ".kt",
+  ".kts",
+  ".cs",
+  ".py",
+  ".rb",
+  ".php",
+  ".swift",
+]);
+
+const IGNORED_DIRECTORIES = new Set([
+  ".git",
+  ".hg",
+  ".svn",
+  ".next",
+  ".venv",
+  "venv",
+  "__pycache__",
+  "node_modules",
+  "vendor",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "bin",
+  "obj",
+  "coverage",
+  "Pods",
+  ".build",
+]);
+
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Evaluation methods of the OpenFeature SDKs, e.g. getBooleanValue (JS, Java,
+ * PHP, Swift), GetStringValueAsync (.NET), BooleanValue (Go),
+ * get_boolean_value (Python), fetch_boolean_value (Ruby), the React hooks and
+ * the NestJS decorators.
+ * Each alternative names its value type.
+ */
+const METHOD_PATTERN = new RegExp(
+  `(?:${[
+    "\\b(?:get|Get)(Boolean|String|Number|Integer|Double|Float|Object)(?:Value|Details)(?:Async)?",
+    "\\b(Boolean|String|Int|Float|Object)Value(?:Details)?",
+    "\\b(?:get|fetch)_(boolean|string|number|integer|float|object)_(?:value|details)",
+    "\\buse(Boolean|String|Number|Object)Flag(?:Value|Details)",
+    "@(Boolean|String|Number|Object)FeatureFlag",
+    "\\buse(Flag)",
+  ]
+    .map((alternative) => `(?:${alternative})`)
+    .join("|")})\\s*\\(`,
+  "g"
+);
+
+const KEY_NAMES = ["flagKey", "flag_key", "key"];
+const DEFAULT_NAMES = ["defaultValue", "default_value"];
+
+function typeFromName(name: string | undefined): FlagValueType | undefined {
+  switch (name?.toLowerCase()) {
+    case "boolean":
+      return "boolean";
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+    case "int":
+    case "double":
+    case "float":
+      return "number";
+    case "object":
+      return "object";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the source of a call's argument list, starting after the opening
+ * parenthesis, honouring nested brackets and string literals.
+ */
+export function readArguments(
+  source: string,
+  start: number
+): string | undefined {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start; i < source.length && i < start + 2000; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      if (depth === 0) {
+        return source.slice(start, i);
+      }
+      depth--;
+    }
+  }
+  return undefined;
+}
+
+function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = "";
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i];
+    current += char;
+    if (quote) {
+      if (char === "\\") {
+        current += args[++i] ?? "";
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(current.slice(0, -1).trim());
+      current = "";
+    }
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+function stringLiteral(expression: string): string | undefined {
+  const match = /^(?:@|[rbuf]{0,2})?(["'`])((?:\\.|(?!\1)[^\\])*)\1$/s.exec(
+    expression
+  );
+  if (!match || (match[1] === "`" && match[2].includes("${"))) {
+    return undefined;
+  }
+  return match[2].replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Reads a literal default value. Object defaults that are not valid JSON keep
+ * their type but no value.
+ */
+function literalValue(
+  expression: string
+): { value?: unknown; type: FlagValueType } | undefined {
+  const text = expression.trim();
+  if (/^(true|True|TRUE)$/.test(text)) return { value: true, type: "boolean" };
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return { value: false, type: "boolean" };
+  }
+  const str = stringLiteral(text);
+  if (str !== undefined) return { value: str, type: "string" };
+  const number = /^-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?[dDfFlLmM]?$/.exec(text);
+  if (number) {
+    return { value: Number.parseFloat(text), type: "number" };
+  }
+  if (/^[{[]|^(?:map|dict|new\s+\w+|Value\()/.test(text)) {
+    try {
+      return { value: JSON.parse(text), type: "object" };
+    } catch {
+      return { type: "object" };
+    }
+  }
+  return undefined;
+}
+
+function namedArgument(args: string[], names: string[]): string | undefined {
+  for (const arg of args) {
+    const match = /^([A-Za-z_]\w*)\s*[:=]\s*([\s\S]+)$/.exec(arg);
+    if (match && names.includes(match[1])) {
+      return match[2].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the key and default value from a call's arguments. Named arguments
+ * (Ruby, Swift, Python keywords, option objects) take precedence; otherwise the
+ * first string-literal argument is the key (Go passes a context first) and the
+ * argument after it is the default value.
+ */
+function parseCall(rawArgs: string): {
+  key?: string;
+  keyExpression?: string;
+  defaultExpression?: string;
+} {
+  let args = splitArguments(rawArgs);
+  // Options object, e.g. NestJS decorators or `{ flagKey, defaultValue }`
+  if (args.length === 1 && args[0].startsWith("{")) {
+    args = splitArguments(args[0].slice(1, -1));
+  }
+
+  const namedKey = namedArgument(args, KEY_NAMES);
+  const namedDefault = namedArgument(args, DEFAULT_NAMES);
+  if (namedKey !== undefined) {
+    const key = stringLiteral(namedKey);
+    return {
+      ...(key !== undefined ? { key } : { keyExpression: namedKey }),
+      defaultExpression: namedDefault,
+    };
+  }
+
+  const keyIndex = args.findIndex((arg) => stringLiteral(arg) !== undefined);
+  if (keyIndex === -1) {
+    return {
+      keyExpression: args[0],
+      defaultExpression: namedDefault ?? args[1],
+    };
+  }
+  return {
+    key: stringLiteral(args[keyIndex]),
+    defaultExpression: namedDefault ?? args[keyIndex + 1],
+  };
+}
+
+/**
+ * Returns a function mapping an index in `source` to its line number, from the
+ * start offsets of the lines computed once per file.
+ */
+export function lineLocator(source: string): (index: number) => number {
+  const starts = [0];
+  for (
+    let i = source.indexOf("\n");
+    i !== -1;
+    i = source.indexOf("\n", i + 1)
+  ) {
+    starts.push(i + 1);
+  }
+  return (index) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= index) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+}
+
+export function scanSource(source: string, file: string): FlagUsage[] {
+  const usages: FlagUsage[] = [];
+  const lineAt = lineLocator(source);
+  for (const match of source.matchAll(METHOD_PATTERN)) {
+    const rawArgs = readArguments(source, match.index! + match[0].length);
+    if (rawArgs === undefined || !rawArgs.trim()) {
+      continue;
+    }
+    const typeName = match.slice(1).find((group) => group !== undefined);
+    const { key, keyExpression, defaultExpression } = parseCall(rawArgs);
+    const literal =
+      defaultExpression !== undefined
+        ? literalValue(defaultExpression)
+        : undefined;
+    const line = lineAt(match.index!);
+    usages.push({
+      ...(key !== undefined ? { key } : { keyExpression }),
+      type: typeFromName(typeName) ?? literal?.type,
+      ...(literal && "value" in literal
+        ? { defaultValue: literal.value }
+        : defaultExpression !== undefined
+        ? { defaultExpression }
+        : {}),
+      method: match[0].replace(/\s*\($/, ""),
+      file,
+      line,
+      location: `${file}:${line}`,
+    });
+  }
+  return usages;
+}
+
+async function collectFiles(dir: string, files: string[]): Promise<boolean> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (files.length >= MAX_FILES) {
+      return true;
+    }
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        if (await collectFiles(path, files)) {
+          return true;
+        }
+      }
+    } else if (
+      entry.isFile() &&
+      SOURCE_EXTENSIONS.has(extname(entry.name)) &&
+      !/\.(min|d)\.[cm]?[jt]s$/.test(entry.name)
+    ) {
+      files.push(path);
+    }
+  }
+  return false;
+}
+
+export type SourceFile = { path: string; source: string };
+
+/**
+ * Reads the source files of a tree one at a time, calling `visit` for each.
+ * Dependency and build directories and files over MAX_FILE_BYTES are skipped,
+ * and at most MAX_FILES files are listed. Paths are relative to the root.
+ */
+export async function readSourceFiles(
+  root: string,
+  visit: (file: SourceFile) => void
+): Promise<{ filesScanned: number; truncated: boolean }> {
+  const paths: string[] = [];
+  const truncated = await collectFiles(root, paths);
+
+  for (const path of paths) {
+    if ((await stat(path)).size > MAX_FILE_BYTES) {
+      continue;
+    }
+    const source = await readFile(path, { encoding: "utf-8" });
+    visit({ path: relative(root, path), source });
+  }
+  return { filesScanned: paths.length, truncated };
+}
+
+/**
+ * Scans a source tree for OpenFeature flag evaluation calls.
+ */
+export async function scanFlagUsage(directory: string): Promise<FlagUsageScan> {
+  const root = resolve(directory);
+  const usages: FlagUsage[] = [];
+  const { filesScanned, truncated } = await readSourceFiles(
+    root,
+    ({ path, source }) => {
+      usages.push(...scanSource(source, path));
+    }
+  );
+  return { directory: root, filesScanned, usages, truncated };
+}
+
+/**
+ * Compares flag usages in code with a bulk evaluation from the flag service.
+ */
+export function crossCheckUsages(
+  usages: FlagUsage[],
+  flags: BulkFlagEvaluation[]
+): UsageCrossCheck {
+  const serviceTypes = new Map<string, FlagValueType | undefined>();
+  for (const flag of flags) {
+    const notFound = "errorCode" in flag && flag.errorCode === "FLAG_NOT_FOUND";
+    if (!notFound) {
+      serviceTypes.set(
+        flag.key,
+        "value" in flag ? flagValueType(flag.value) : undefined
+      );
+    }
+  }
+
+  const byKey = new Map<string, FlagUsage[]>();
+  for (const usage of usages) {
+    if (usage.key !== undefined) {
+      byKey.set(usage.key, [...(byKey.get(usage.key) ?? []), usage]);
+    }
+  }
+
+  const result: UsageCrossCheck = {
+    missingFromService: [],
+    typeMismatches: [],
+    unreferenced: [...serviceTypes.keys()]
+      .filter((key) => !byKey.has(key))
+      .sort(),
+    notes: [],
+  };
+
+  for (const [key, keyUsages] of byKey) {
+    const locations = keyUsages.map((usage) => usage.location);
+    if (!serviceTypes.has(key)) {
+      result.missingFromService.push({ key, locations });
+      continue;
+    }
+    const serviceType = serviceTypes.get(key);
+    for (const codeType of new Set(keyUsages.map((usage) => usage.type))) {
+      if (serviceType && codeType && codeType !== serviceType) {
+        result.typeMismatches.push({
+          key,
+          codeType,
+          serviceType,
+          locations: keyUsages
+            .filter((usage) => usage.type === codeType)
+            .map((usage) => usage.location),
+        });
+      }
+    }
+  }
+
+  const dynamic = usages.filter((usage) => usage.key === undefined);
+  if (dynamic.length > 0 && result.unreferenced.length > 0) {
+    result.notes.push(
+      `${
+        dynamic.length
+      } call site(s) use a non-literal flag key, so some "unreferenced" flags may still be used: ${dynamic
+        .map((usage) => usage.location)
+        .join(", ")}`
+    );
+  }
+  return result;
+}
@@ -0,0 +1,126 @@
+import { getProviderDocs, getProviders } from "../catalog.js";
+import { logger } from "../logger.js";
+import { DISABLE_RESOURCES } from "../resources.js";
+
+function buildProviderPrompts(
+  providers: string[],
+  technology: string
+): string[] {
+  const providerPrompts: string[] = [];
+
+  for (const providerName of providers) {
+    const providerDocLinks = getProviderDocs()[providerName];
+    if (!providerDocLinks) {
+      throw new Error(
+        `Provider '${providerName}' is not recognized. Available providers: ${getProviders().join(
+          ", "
+        )}`
+      );
+    }
+
+    logger.debug("Resolving provider documentation", {
+      provider: providerName,
+      technology,
+    });
+    const perTechnologyUrl = providerDocLinks[technology] || "";
+    if (perTechnologyUrl) {
+      if (!DISABLE_RESOURCES) {
+        const resourceName = `of-provider-doc:${providerName}:${technology}`;
+        providerPrompts.push(
+          `- **${providerName}**: If your AI Agent supports MCP resources, fetch the MCP resource named \`${resourceName}\` ` +
+            `(otherwise read the documentation from this link: ${perTechnologyUrl}) ` +
+            `and evaluate the best way to install and configure this provider alongside the OpenFeature ${technology} SDK.`
+        );
+      } else {
+        providerPrompts.push(
+          `- **${providerName}**: Read the provider documentation from this link: ${perTechnologyUrl} ` +
+            `and evaluate the best way to install and configure this provider alongside the OpenFeature ${technology} SDK.`
+        );
+      }
+    } else {
+      providerPrompts.push(
+        `- **${providerName}**: No specific ${technology} documentation URL found. Search for "${providerName} OpenFeature ${technology}" ` +
+          `installation documentation and provide installation instructions if available.`
+      );
+    }
+  }
+
+  return providerPrompts;
+}
+
+function processPromptWithProviders(
+  prompt: string,
+  providers: string[],
+  technology: string,
+  providerPrompts: string[]
+): string {
+  // Marker-based injection: replace the block between markers when providers are specified
+  const providersMarkerPattern =
+    /<!--\s*PROVIDERS:START\s*-->[\s\S]*?<!--\s*PROVIDERS:END\s*-->/;
+
+  const providerBlock = providerPrompts.length
+    ? ["### Step 2: Provider installation", "", ...providerPrompts].join("\n")
+    : "";
+
+  const providersAppendix = providerPrompts.length
+    ? `\n\n---\n\nProvider installation instructions for ${technology}:\n\n${providerPrompts.join(
+        "\n"
+      )}`
+    : "";
+
+  let finalText = prompt;
+
+  if (providers.length > 0) {
+    if (providersMarkerPattern.test(prompt)) {
+      // Replace the marker block with provider content (without the markers)
+      finalText = prompt.replace(providersMarkerPattern, providerBlock);
+    } else {
+      // Fallback: append to the end if no marker exists in the prompt
+      finalText = `${prompt}${providersAppendix}`;
+    }
+  } else {
+    // No providers specified: strip the marker block entirely
+    finalText = prompt.replace(providersMarkerPattern, "");
+  }
+
+  return finalText;
+}
+
+/**
+ * Replaces the `PROVIDERS` marker block of a guide with installation steps for
+ * the given providers, or removes it when there are none.
+ */
+export function injectProviderSteps(
+  prompt: string,
+  technology: string,
+  providers: string[]
+): string {
+  const providerPrompts = buildProviderPrompts(providers, technology);
+  return processPromptWithProviders(
+    prompt,
+    providers,
+    technology,
+    providerPrompts
+  );
+}
+
+const TECHNOLOGY_BLOCK =
+  /<!--\s*TECHNOLOGY:([\w.,-]+):START\s*-->\n?([\s\S]*?)<!--\s*TECHNOLOGY:END\s*-->\n?/g;
+
+/**
+ * Keeps the `TECHNOLOGY:<names>` blocks that list the technology, or the
+ * `other` block when none does, and drops the rest.
+ */
+export function selectTechnologyBlocks(
+  guide: string,
+  technology: string
+): string {
+  const lists = (names: string) => names.split(",").map((name) => name.trim());
+  const covered = [...guide.matchAll(TECHNOLOGY_BLOCK)].some(([, names]) =>
+    lists(names).includes(technology)
+  );
+  const wanted = covered ? technology : "other";
+  return guide.replace(TECHNOLOGY_BLOCK, (_, names: string, content: string) =>
+    lists(names).includes(wanted) ? content : ""
+  );
+}
@@ -0,0 +1,64 @@
+import { fileURLToPath } from "node:url";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { loadCatalogs, resetCatalogs } from "../catalog.js";
+import { renderFeatureGuide } from "./guideTools.js";
+import {
+  GUIDE_TOPICS,
+  INSTALL_TECHNOLOGIES,
+} from "./promptsBundle.generated.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("../fixtures/providers.json", import.meta.url)
+);
+
+describe("get_openfeature_guide", () => {
+  beforeAll(async () => {
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+  });
+
+  afterAll(() => {
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  it("should keep only the blocks for the technology", () => {
+    const guide = renderFeatureGuide("hooks", "go", []);
+
+    expect(guide).toContain("hooks.NewLoggingHook(false, logger)");
+    expect(guide).not.toContain("@openfeature/open-telemetry-hooks");
+    expect(guide).not.toContain("Implement the SDK's hook interface");
+    expect(guide).not.toMatch(/(TECHNOLOGY|PROVIDERS):/);
+  });
+
+  it("should render every topic for every technology without markers", () => {
+    for (const topic of GUIDE_TOPICS) {
+      for (const technology of INSTALL_TECHNOLOGIES) {
+        const guide = renderFeatureGuide(topic, technology, []);
+        expect(guide, `${topic}/${technology}`).not.toMatch(
+          /(TECHNOLOGY|PROVIDERS):/
+        );
+        expect(guide, `${topic}/${technology}`).toContain("## Steps");
+      }
+    }
+  });
+
+  it("should inject provider steps into the Multi-Provider guide", () => {
+    const guide = renderFeatureGuide("multi-provider", "nodejs", ["flagd"]);
+
+    expect(guide).toContain("@openfeature/multi-provider");
+    expect(guide).toContain("### Step 2: Provider installation");
+    expect(guide).toContain("**flagd**");
+    expect(renderFeatureGuide("multi-provider", "nodejs", [])).not.toContain(
+      "Provider installation"
+    );
+  });
+
+  it("should fall back to the generic block for other technologies", () => {
+    const guide = renderFeatureGuide("testing", "ruby", []);
+
+    expect(guide).toContain("Use the SDK's in-memory provider");
+    expect(guide).not.toContain("InMemoryProvider(flags)");
+  });
+});
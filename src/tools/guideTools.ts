@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RegisterToolWithErrorHandling } from "../server.js";
+import { installTechnologySchema, providersSchema } from "../catalog.js";
+import { buildProviderResourceLinks } from "../resources.js";
+import {
+  injectProviderSteps,
+  selectTechnologyBlocks,
+} from "./guideTemplating.js";
+import {
+  FEATURE_GUIDES,
+  GUIDE_TOPICS,
+  GuideTopicSchema,
+  type GuideTopic,
+} from "./promptsBundle.generated.js";
+
+function guideArgsSchema() {
+  return z.object({
+    technology: installTechnologySchema().describe(
+      "Technology of the application, as for install_openfeature_sdk"
+    ),
+    topic: GuideTopicSchema.describe("OpenFeature feature to explain"),
+    providers: providersSchema()
+      .optional()
+      .default([])
+      .describe(
+        "Providers to install alongside the guide, e.g. the providers to combine with the Multi-Provider"
+      ),
+  });
+}
+
+/**
+ * Renders the feature guide for a topic and technology: the matching
+ * technology blocks and the installation steps for the given providers.
+ * Shared by the guide tool and MCP prompts.
+ */
+export function renderFeatureGuide(
+  topic: GuideTopic,
+  technology: string,
+  providers: string[]
+): string {
+  const guide = selectTechnologyBlocks(FEATURE_GUIDES[topic], technology);
+  return injectProviderSteps(guide, technology, providers);
+}
+
+export function registerGuideTools(
+  registerToolWithErrorHandling: RegisterToolWithErrorHandling
+): void {
+  const GuideArgsSchema = guideArgsSchema();
+  registerToolWithErrorHandling(
+    "get_openfeature_guide",
+    {
+      description: [
+        "Fetch a guide for an OpenFeature feature beyond the basic installation,",
+        `with examples for the technology. Topics: ${GUIDE_TOPICS.join(", ")}.`,
+        "Call install_openfeature_sdk first if the SDK is not installed yet.",
+      ].join(" "),
+      annotations: {
+        title: "Get OpenFeature Guide",
+        readOnlyHint: true,
+      },
+      inputSchema: GuideArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { topic, technology, providers } = GuideArgsSchema.parse(args);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: renderFeatureGuide(topic, technology, providers),
+          },
+          ...buildProviderResourceLinks(providers, technology),
+        ],
+      };
+    }
+  );
+}
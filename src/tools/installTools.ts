@@ -1,108 +1,69 @@
 import { z, type ZodRawShape } from "zod";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import type { RegisterToolWithErrorHandling } from "../server.js";
-import { DISABLE_RESOURCES } from "../resources.js";
 import {
-  BUNDLED_PROMPTS,
-  InstallTechnologySchema,
-} from "./promptsBundle.generated.js";
-import {
-  PROVIDER_DOCS,
+  findProviders,
+  getInstallPrompt,
+  installTechnologySchema,
+  PROVIDER_CATEGORIES,
+  PROVIDER_TAGS,
   providersSchema,
-  type ProviderName,
-} from "./providersBundle.generated.js";
+} from "../catalog.js";
 import { buildProviderResourceLinks } from "../resources.js";
+import { logger } from "../logger.js";
+import { injectProviderSteps } from "./guideTemplating.js";
 
-const InstallTechnologyArgsSchema = z.object({
-  technology: InstallTechnologySchema,
-  providers: providersSchema.optional().default([]),
-});
-
-function buildProviderPrompts(
-  providers: ProviderName[],
-  technology: z.infer<typeof InstallTechnologySchema>
-): string[] {
-  const providerPrompts: string[] = [];
-
-  for (const providerName of providers) {
-    const providerDocLinks = PROVIDER_DOCS[providerName];
-    if (!providerDocLinks) {
-      throw new Error(
-        `Provider '${providerName}' is not recognized. Available providers: ${Object.keys(
-          PROVIDER_DOCS
-        ).join(", ")}`
-      );
-    }
-
-    console.error(`providerDocLinks: ${providerDocLinks}`);
-    console.error(`technology: ${technology}`);
-    const perTechnologyUrl = providerDocLinks[technology] || "";
-    if (perTechnologyUrl) {
-      if (!DISABLE_RESOURCES) {
-        const resourceName = `of-provider-doc:${providerName}:${technology}`;
-        providerPrompts.push(
-          `- **${providerName}**: If your AI Agent supports MCP resources, fetch the MCP resource named \`${resourceName}\` ` +
-            `(otherwise read the documentation from this link: ${perTechnologyUrl}) ` +
-            `and evaluate the best way to install and configure this provider alongside the OpenFeature ${technology} SDK.`
-        );
-      } else {
-        providerPrompts.push(
-          `- **${providerName}**: Read the provider documentation from this link: ${perTechnologyUrl} ` +
-            `and evaluate the best way to install and configure this provider alongside the OpenFeature ${technology} SDK.`
-        );
-      }
-    } else {
-      providerPrompts.push(
-        `- **${providerName}**: No specific ${technology} documentation URL found. Search for "${providerName} OpenFeature ${technology}" ` +
-          `installation documentation and provide installation instructions if available.`
-      );
-    }
-  }
+function installTechnologyArgsSchema() {
+  return z.object({
+    technology: installTechnologySchema(),
+    providers: providersSchema().optional().default([]),
+  });
+}
 
-  return providerPrompts;
+function listProvidersArgsSchema() {
+  return z.object({
+    technology: installTechnologySchema()
+      .optional()
+      .describe("Only list providers with an SDK for this technology"),
+    category: z
+      .enum(PROVIDER_CATEGORIES)
+      .optional()
+      .describe("Only list server-side or client-side providers"),
+    tags: z
+      .array(z.enum(PROVIDER_TAGS))
+      .optional()
+      .describe("Only list providers with all of these tags"),
+    vendor_official: z
+      .boolean()
+      .optional()
+      .describe("Only list providers maintained by the vendor (or not)"),
+    query: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Case-insensitive match on the provider name or vendor"),
+  });
 }
 
-function processPromptWithProviders(
-  prompt: string,
-  providers: ProviderName[],
-  technology: z.infer<typeof InstallTechnologySchema>,
-  providerPrompts: string[]
+/**
+ * Renders the installation guide for a technology, with provider installation
+ * steps for the given providers. Shared by the install tool and MCP prompts.
+ */
+export function renderInstallPrompt(
+  technology: string,
+  providers: string[]
 ): string {
-  // Marker-based injection: replace the block between markers when providers are specified
-  const providersMarkerPattern =
-    /<!--\s*PROVIDERS:START\s*-->[\s\S]*?<!--\s*PROVIDERS:END\s*-->/;
-
-  const providerBlock = providerPrompts.length
-    ? ["### Step 2: Provider installation", "", ...providerPrompts].join("\n")
-    : "";
-
-  const providersAppendix = providerPrompts.length
-    ? `\n\n---\n\nProvider installation instructions for ${technology}:\n\n${providerPrompts.join(
-        "\n"
-      )}`
-    : "";
-
-  let finalText = prompt;
-
-  if (providers.length > 0) {
-    if (providersMarkerPattern.test(prompt)) {
-      // Replace the marker block with provider content (without the markers)
-      finalText = prompt.replace(providersMarkerPattern, providerBlock);
-    } else {
-      // Fallback: append to the end if no marker exists in the prompt
-      finalText = `${prompt}${providersAppendix}`;
-    }
-  } else {
-    // No providers specified: strip the marker block entirely
-    finalText = prompt.replace(providersMarkerPattern, "");
+  const prompt = getInstallPrompt(technology);
+  if (prompt === undefined) {
+    throw new Error(`No installation guide for technology '${technology}'`);
   }
-
-  return finalText;
+  return injectProviderSteps(prompt, technology, providers);
 }
 
 export function registerInstallTools(
   registerToolWithErrorHandling: RegisterToolWithErrorHandling
 ): void {
+  const InstallTechnologyArgsSchema = installTechnologyArgsSchema();
   registerToolWithErrorHandling(
     "install_openfeature_sdk",
     {
@@ -111,6 +72,8 @@ export function registerInstallTools(
         "If you are installing a provider, also fetches the provider installation instructions.",
         "Also includes documentation and examples for using OpenFeature SDK in your application.",
         "Choose the technology that matches the application's language/framework.",
+        "If unsure, call detect_openfeature_project first to detect it from the project's manifests.",
+        "After following the instructions, call verify_openfeature_install to check the result.",
       ].join(" "),
       annotations: {
         title: "Install OpenFeature SDK",
@@ -120,16 +83,8 @@ export function registerInstallTools(
     },
     async (args: unknown): Promise<CallToolResult> => {
       const { technology, providers } = InstallTechnologyArgsSchema.parse(args);
-      const prompt: string = BUNDLED_PROMPTS[technology];
-
-      const providerPrompts = buildProviderPrompts(providers, technology);
-      const finalText = processPromptWithProviders(
-        prompt,
-        providers,
-        technology,
-        providerPrompts
-      );
-      console.error(`install_openfeature_sdk prompt text: \n${finalText}`);
+      const finalText = renderInstallPrompt(technology, providers);
+      logger.debug("install_openfeature_sdk prompt text", { text: finalText });
 
       return {
         content: [
@@ -143,4 +98,41 @@ export function registerInstallTools(
       };
     }
   );
+
+  const ListProvidersArgsSchema = listProvidersArgsSchema();
+  registerToolWithErrorHandling(
+    "list_providers",
+    {
+      description: [
+        "Search the OpenFeature provider catalog.",
+        "Filter by technology, server or client category, tags (ofrep, hosted, open-source) and vendor-maintained providers, e.g. client-side providers for swift that support OFREP.",
+        "Returns each matching provider with its documentation and the package to install per technology.",
+        "Pass the provider names to install_openfeature_sdk to install them.",
+      ].join("\n"),
+      annotations: {
+        title: "List OpenFeature providers",
+        readOnlyHint: true,
+      },
+      inputSchema: ListProvidersArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = ListProvidersArgsSchema.parse(args);
+      const providers = findProviders({
+        technology: parsed.technology,
+        category: parsed.category,
+        tags: parsed.tags,
+        vendorOfficial: parsed.vendor_official,
+        query: parsed.query,
+      });
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ count: providers.length, providers }),
+          },
+        ],
+      };
+    }
+  );
 }
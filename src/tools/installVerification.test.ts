@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { verifyInstallation } from "./installVerification.js";
+
+describe("verifyInstallation", () => {
+  let dir: string;
+
+  async function write(files: Record<string, unknown>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(dirname(join(dir, name)), { recursive: true });
+      await writeFile(
+        join(dir, name),
+        typeof content === "string" ? content : JSON.stringify(content)
+      );
+    }
+  }
+
+  function statuses(checks: Array<{ id: string; status: string }>) {
+    return Object.fromEntries(checks.map((check) => [check.id, check.status]));
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-verify-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should pass a complete Node.js installation", async () => {
+    await write({
+      "package.json": {
+        dependencies: {
+          "@openfeature/server-sdk": "^1.17.0",
+          "@openfeature/flagd-provider": "^0.13.0",
+        },
+      },
+      "src/index.ts": [
+        'import { OpenFeature } from "@openfeature/server-sdk";',
+        "",
+        "await OpenFeature.setProviderAndWait(new FlagdProvider());",
+      ].join("\n"),
+    });
+
+    const verification = await verifyInstallation(dir, undefined, ["flagd"]);
+
+    expect(verification).toMatchObject({
+      technology: "nodejs",
+      passed: true,
+      summary: "5/5 checks passed",
+    });
+    expect(statuses(verification.checks)).toEqual({
+      "sdk-dependency": "pass",
+      "provider-dependency:flagd": "pass",
+      "sdk-flavor": "pass",
+      "provider-registration": "pass",
+      "await-provider-ready": "pass",
+    });
+    expect(
+      verification.checks.find((check) => check.id === "provider-registration")
+        ?.locations
+    ).toEqual(["src/index.ts:3"]);
+  });
+
+  it("should report missing packages, lockfile entries and unawaited registration", async () => {
+    await write({
+      "package.json": {
+        dependencies: { "@openfeature/server-sdk": "^1.17.0" },
+      },
+      "package-lock.json": { packages: {} },
+      "src/app.js": [
+        "function start() {",
+        "  // await OpenFeature.setProviderAndWait(provider) in tests",
+        "  OpenFeature.setProviderAndWait(provider);",
+        "}",
+        "OpenFeature.setProviderAndWait(other).then(start);",
+      ].join("\n"),
+    });
+
+    const verification = await verifyInstallation(dir, "nodejs", ["flagd"]);
+
+    expect(verification.passed).toBe(false);
+    expect(statuses(verification.checks)).toMatchObject({
+      "sdk-dependency": "fail",
+      "provider-dependency:flagd": "fail",
+      "provider-registration": "pass",
+      "await-provider-ready": "fail",
+    });
+    const [sdk, , , , awaited] = verification.checks;
+    expect(sdk.details).toBe(
+      "@openfeature/server-sdk is declared in package.json but missing from package-lock.json"
+    );
+    expect(awaited.locations).toEqual(["src/app.js:3"]);
+  });
+
+  it("should only accept a .then or .catch chained on the registration call", async () => {
+    await write({
+      "package.json": {
+        dependencies: { "@openfeature/server-sdk": "^1.17.0" },
+      },
+      "src/app.js": [
+        "OpenFeature.setProviderAndWait(new FlagdProvider())",
+        "loadConfig().then(start)",
+        "OpenFeature.setProviderAndWait(",
+        "  new FlagdProvider({ onError: (err) => { log(err); } })",
+        ")",
+        "  .catch(report);",
+      ].join("\n"),
+    });
+
+    const verification = await verifyInstallation(dir, "nodejs", []);
+
+    expect(
+      verification.checks.find((check) => check.id === "await-provider-ready")
+        ?.locations
+    ).toEqual(["src/app.js:1"]);
+  });
+
+  it("should catch a React app without OpenFeatureProvider or with the server SDK", async () => {
+    await write({
+      "package.json": {
+        dependencies: {
+          react: "^18.2.0",
+          "@openfeature/react-sdk": "^1.0.0",
+          "@openfeature/server-sdk": "^1.17.0",
+        },
+      },
+      "src/main.tsx": "OpenFeature.setProvider(provider);\n",
+      "src/Checkout.tsx": [
+        "export function Checkout() {",
+        '  const { value } = useFlag("new-checkout", false);',
+        "}",
+      ].join("\n"),
+    });
+
+    const verification = await verifyInstallation(dir, undefined, []);
+
+    expect(verification.technology).toBe("react");
+    expect(statuses(verification.checks)).toEqual({
+      "sdk-dependency": "pass",
+      "sdk-flavor": "fail",
+      "provider-registration": "pass",
+      "await-provider-ready": "pass",
+      "react-provider-wrapper": "fail",
+    });
+    expect(
+      verification.checks.find((check) => check.id === "react-provider-wrapper")
+    ).toMatchObject({
+      locations: ["src/Checkout.tsx:2"],
+      fix: expect.stringContaining("<OpenFeatureProvider>"),
+    });
+  });
+
+  it("should check Go registration and flag a missing provider call", async () => {
+    await write({
+      "go.mod": [
+        "module example.com/app",
+        "",
+        "require github.com/open-feature/go-sdk v1.14.0",
+      ].join("\n"),
+      "main.go": "package main\n\nfunc main() {}\n",
+    });
+
+    const verification = await verifyInstallation(dir, "go", []);
+
+    expect(statuses(verification.checks)).toEqual({
+      "sdk-dependency": "pass",
+      "provider-registration": "fail",
+    });
+    expect(verification.checks[1].fix).toContain(
+      "openfeature.SetProviderAndWait(provider)"
+    );
+    expect(verification.summary).toBe("1/2 checks passed");
+  });
+});
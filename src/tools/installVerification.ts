@@ -0,0 +1,529 @@
+import { stat } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { getProviderCatalog } from "../catalog.js";
+import {
+  lineLocator,
+  readArguments,
+  readSourceFiles,
+  type SourceFile,
+} from "./flagUsage.js";
+import {
+  detectProject,
+  type OpenFeatureDependency,
+  type ProjectDetection,
+} from "./projectDetection.js";
+import type { InstallTechnology } from "./promptsBundle.generated.js";
+
+export type CheckStatus = "pass" | "fail";
+
+export type VerificationCheck = {
+  id: string;
+  title: string;
+  status: CheckStatus;
+  details: string;
+  /** `file:line` locations the check is about. */
+  locations?: string[];
+  /** What to change to make a failing check pass. */
+  fix?: string;
+};
+
+export type InstallVerification = {
+  directory: string;
+  technology: string;
+  passed: boolean;
+  summary: string;
+  checks: VerificationCheck[];
+  notes: string[];
+};
+
+type TechnologyRules = {
+  /** Package names of the SDK, as they appear in the manifest. */
+  sdk: string[];
+  install: string;
+  /** SDK packages meant for the other side (server vs. client). */
+  wrongSdks?: string[];
+  extensions: string[];
+  /** Calls that register a provider at the entry point. */
+  registration: RegExp;
+  registrationExample: string;
+  /** Asynchronous registration calls whose result must be awaited. */
+  awaited?: string;
+};
+
+const JS_EXTENSIONS = [".js", ".jsx", ".mjs", ".cjs", ".ts", ".tsx", ".mts"];
+const JS_REGISTRATION = /\bsetProvider(?:AndWait)?\s*\(/g;
+
+const RULES: Partial<Record<InstallTechnology, TechnologyRules>> = {
+  nodejs: {
+    sdk: ["@openfeature/server-sdk"],
+    install: "npm install --save @openfeature/server-sdk",
+    wrongSdks: ["@openfeature/web-sdk", "@openfeature/react-sdk"],
+    extensions: JS_EXTENSIONS,
+    registration: JS_REGISTRATION,
+    registrationExample: "await OpenFeature.setProviderAndWait(provider)",
+    awaited: "setProviderAndWait",
+  },
+  nestjs: {
+    sdk: ["@openfeature/nestjs-sdk"],
+    install: "npm install --save @openfeature/nestjs-sdk",
+    wrongSdks: ["@openfeature/web-sdk", "@openfeature/react-sdk"],
+    extensions: JS_EXTENSIONS,
+    registration:
+      /\bOpenFeatureModule\.forRoot\s*\(|\bsetProvider(?:AndWait)?\s*\(/g,
+    registrationExample:
+      "OpenFeatureModule.forRoot({ defaultProvider: provider }) in the root module",
+    awaited: "setProviderAndWait",
+  },
+  javascript: {
+    sdk: ["@openfeature/web-sdk"],
+    install: "npm install --save @openfeature/web-sdk",
+    wrongSdks: ["@openfeature/server-sdk"],
+    extensions: JS_EXTENSIONS,
+    registration: JS_REGISTRATION,
+    registrationExample: "OpenFeature.setProvider(provider)",
+    awaited: "setProviderAndWait",
+  },
+  react: {
+    sdk: ["@openfeature/react-sdk"],
+    install: "npm install --save @openfeature/react-sdk",
+    wrongSdks: ["@openfeature/server-sdk"],
+    extensions: JS_EXTENSIONS,
+    registration: JS_REGISTRATION,
+    registrationExample: "OpenFeature.setProvider(provider)",
+    awaited: "setProviderAndWait",
+  },
+  go: {
+    sdk: ["github.com/open-feature/go-sdk"],
+    install: "go get github.com/open-feature/go-sdk",
+    extensions: [".go"],
+    registration: /\bopenfeature\.SetProvider\w*\s*\(/g,
+    registrationExample: "openfeature.SetProviderAndWait(provider)",
+  },
+  java: {
+    sdk: ["dev.openfeature:sdk"],
+    install:
+      "Add the dev.openfeature:sdk dependency to pom.xml or build.gradle",
+    extensions: [".java", ".kt"],
+    registration: /\.setProvider(?:AndWait)?\s*\(/g,
+    registrationExample:
+      "OpenFeatureAPI.getInstance().setProviderAndWait(provider)",
+  },
+  kotlin: {
+    sdk: ["dev.openfeature:kotlin-sdk", "dev.openfeature:android-sdk"],
+    install:
+      "Add the dev.openfeature:kotlin-sdk dependency to build.gradle(.kts)",
+    extensions: [".kt", ".kts", ".java"],
+    registration: /\bsetProvider(?:AndWait)?\s*\(/g,
+    registrationExample: "OpenFeatureAPI.setProviderAndWait(provider)",
+  },
+  dotnet: {
+    sdk: ["OpenFeature"],
+    install: "dotnet add package OpenFeature",
+    extensions: [".cs"],
+    registration: /\bSetProviderAsync\s*\(|\bAddOpenFeature\s*\(/g,
+    registrationExample: "await Api.Instance.SetProviderAsync(provider)",
+    awaited: "SetProviderAsync",
+  },
+  python: {
+    sdk: ["openfeature-sdk"],
+    install: "pip install openfeature-sdk",
+    extensions: [".py"],
+    registration: /\bset_provider\s*\(/g,
+    registrationExample: "api.set_provider(provider)",
+  },
+  ruby: {
+    sdk: ["openfeature-sdk"],
+    install: "bundle add openfeature-sdk",
+    extensions: [".rb"],
+    registration: /\bset_provider(?:_and_wait)?\s*\(/g,
+    registrationExample:
+      "OpenFeature::SDK.configure { |config| config.set_provider(provider) }",
+  },
+  php: {
+    sdk: ["open-feature/sdk"],
+    install: "composer require open-feature/sdk",
+    extensions: [".php"],
+    registration: /->setProvider\s*\(/g,
+    registrationExample:
+      "OpenFeatureAPI::getInstance()->setProvider($provider)",
+  },
+  swift: {
+    sdk: ["https://github.com/open-feature/swift-sdk"],
+    install:
+      'Add .package(url: "https://github.com/open-feature/swift-sdk.git", from: "0.4.0") to Package.swift',
+    extensions: [".swift"],
+    registration: /\bsetProvider(?:AndWait)?\s*\(/g,
+    registrationExample:
+      "await OpenFeatureAPI.shared.setProviderAndWait(provider: provider)",
+    awaited: "setProviderAndWait",
+  },
+};
+
+// Lockfiles read by detectProject, per package manager
+const LOCKFILES: Record<string, string> = {
+  npm: "package-lock.json",
+  bundler: "Gemfile.lock",
+  composer: "composer.lock",
+};
+
+const REACT_HOOK_PATTERN =
+  /\buse(?:Boolean|String|Number|Object)FlagValue\s*\(|\buse(?:Boolean|String|Number|Object)FlagDetails\s*\(|\buseFlag\s*\(|\buseSuspenseFlag\s*\(/g;
+
+// Maps an index in a source file to its `path:line` location
+type Locate = (index: number) => string;
+
+function locator(file: SourceFile): Locate {
+  const lineAt = lineLocator(file.source);
+  return (index) => `${file.path}:${lineAt(index)}`;
+}
+
+function findAll(file: SourceFile, pattern: RegExp, locate: Locate): string[] {
+  return [...file.source.matchAll(pattern)].map((match) =>
+    locate(match.index!)
+  );
+}
+
+/**
+ * Locations found while reading the source files once, for the checks that
+ * inspect the source.
+ */
+type SourceFindings = {
+  registrations: string[];
+  unawaited: string[];
+  wrappers: string[];
+  hooks: string[];
+};
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that a dependency is declared and, when the project has a lockfile
+ * detectProject reads, resolved in it.
+ */
+function dependencyCheck(
+  id: string,
+  title: string,
+  dependency: OpenFeatureDependency | undefined,
+  lockfile: string | undefined,
+  fix: string
+): VerificationCheck {
+  if (!dependency) {
+    return {
+      id,
+      title,
+      status: "fail",
+      details: "Not found in any manifest",
+      fix,
+    };
+  }
+  const version = [
+    dependency.declared && `declared ${dependency.declared}`,
+    dependency.installed && `installed ${dependency.installed}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  if (lockfile && !dependency.installed) {
+    return {
+      id,
+      title,
+      status: "fail",
+      details: `${dependency.name} is declared in ${dependency.manifest} but missing from ${lockfile}`,
+      fix: "Run the package manager's install command to update the lockfile",
+    };
+  }
+  return {
+    id,
+    title,
+    status: "pass",
+    details: `${dependency.name} found in ${dependency.manifest}${
+      version ? ` (${version})` : ""
+    }`,
+  };
+}
+
+function sdkCheck(
+  technology: string,
+  rules: TechnologyRules | undefined,
+  detection: ProjectDetection,
+  lockfile: string | undefined
+): VerificationCheck {
+  const sdk = rules
+    ? detection.openFeatureDependencies.find((dep) =>
+        rules.sdk.some((name) => name.toLowerCase() === dep.name.toLowerCase())
+      )
+    : detection.openFeatureDependencies.find((dep) => dep.kind === "sdk");
+  return dependencyCheck(
+    "sdk-dependency",
+    `OpenFeature ${technology} SDK is a dependency`,
+    sdk,
+    lockfile,
+    rules?.install ??
+      `Install the OpenFeature ${technology} SDK as described by install_openfeature_sdk`
+  );
+}
+
+function providerChecks(
+  technology: string,
+  providers: string[],
+  detection: ProjectDetection,
+  lockfile: string | undefined
+): VerificationCheck[] {
+  const catalog = getProviderCatalog();
+  return providers.map((provider) => {
+    const entry = catalog
+      .find((p) => p.name === provider)
+      ?.technologies.find((t) => t.technology === technology);
+    const packageName = entry?.package?.name.toLowerCase();
+    const dependency = detection.openFeatureDependencies.find(
+      (dep) =>
+        dep.name.toLowerCase() === packageName ||
+        (dep.kind === "provider" &&
+          dep.name.toLowerCase().includes(provider.toLowerCase()))
+    );
+    const fix = entry?.package?.install
+      ? entry.package.install
+      : `Install the ${provider} provider for ${technology}${
+          entry ? ` (see ${entry.docsUrl})` : ""
+        }`;
+    return dependencyCheck(
+      `provider-dependency:${provider}`,
+      `${provider} provider is a dependency`,
+      dependency,
+      lockfile,
+      fix
+    );
+  });
+}
+
+function wrongSdkCheck(
+  technology: string,
+  rules: TechnologyRules,
+  detection: ProjectDetection
+): VerificationCheck | undefined {
+  if (!rules.wrongSdks) {
+    return undefined;
+  }
+  const wrong = detection.openFeatureDependencies.filter((dep) =>
+    rules.wrongSdks!.includes(dep.name)
+  );
+  return {
+    id: "sdk-flavor",
+    title: `Only ${technology} SDK packages are used`,
+    status: wrong.length > 0 ? "fail" : "pass",
+    details:
+      wrong.length > 0
+        ? `${wrong
+            .map((dep) => dep.name)
+            .join(
+              ", "
+            )} is meant for the other side (server vs. client) of a ${technology} application`
+        : "No server/client SDK mix-up",
+    ...(wrong.length > 0
+      ? { fix: `Remove ${wrong.map((dep) => dep.name).join(", ")}` }
+      : {}),
+  };
+}
+
+function registrationCheck(
+  rules: TechnologyRules,
+  locations: string[]
+): VerificationCheck {
+  return locations.length > 0
+    ? {
+        id: "provider-registration",
+        title: "A provider is registered at startup",
+        status: "pass",
+        details: `Provider registration found in ${locations.length} place(s)`,
+        locations,
+      }
+    : {
+        id: "provider-registration",
+        title: "A provider is registered at startup",
+        status: "fail",
+        details: "No provider registration found in the source files",
+        fix: `Register the provider at the application entry point, e.g. ${rules.registrationExample}`,
+      };
+}
+
+/**
+ * Finds calls of an asynchronous registration method that are neither awaited,
+ * returned nor chained with `.then`/`.catch`.
+ */
+function findUnawaited(
+  method: string,
+  file: SourceFile,
+  locate: Locate
+): string[] {
+  const pattern = new RegExp(`\\b${method}\\s*\\(`, "g");
+  const unawaited: string[] = [];
+  for (const match of file.source.matchAll(pattern)) {
+    const lineStart = file.source.lastIndexOf("\n", match.index!) + 1;
+    const before = file.source.slice(lineStart, match.index!);
+    if (/^\s*(?:\/\/|\*|\/\*)/.test(before)) {
+      continue;
+    }
+    // A promise chained straight after the call's closing parenthesis is
+    // handled; a .then( further on belongs to another expression
+    const argsStart = match.index! + match[0].length;
+    const args = readArguments(file.source, argsStart);
+    const after =
+      args === undefined ? "" : file.source.slice(argsStart + args.length + 1);
+    const awaited =
+      /\b(?:await|return)\s+(?:[\w$]+\??\.)*$/.test(before) ||
+      /^\s*\.(?:then|catch)\s*\(/.test(after);
+    if (!awaited) {
+      unawaited.push(locate(match.index!));
+    }
+  }
+  return unawaited;
+}
+
+function awaitCheck(method: string, unawaited: string[]): VerificationCheck {
+  return {
+    id: "await-provider-ready",
+    title: `${method} is awaited`,
+    status: unawaited.length > 0 ? "fail" : "pass",
+    details:
+      unawaited.length > 0
+        ? `${method} returns before the provider is ready; flags evaluated right after it get default values`
+        : `Every ${method} call is awaited`,
+    ...(unawaited.length > 0
+      ? {
+          locations: unawaited,
+          fix: `Add \`await\` before ${method}(...) (inside an async function)`,
+        }
+      : {}),
+  };
+}
+
+function reactProviderCheck(
+  wrappers: string[],
+  hooks: string[]
+): VerificationCheck {
+  if (wrappers.length > 0) {
+    return {
+      id: "react-provider-wrapper",
+      title: "The React app is wrapped in <OpenFeatureProvider>",
+      status: "pass",
+      details: "OpenFeatureProvider found",
+      locations: wrappers,
+    };
+  }
+  return {
+    id: "react-provider-wrapper",
+    title: "The React app is wrapped in <OpenFeatureProvider>",
+    status: "fail",
+    details:
+      hooks.length > 0
+        ? "Flag hooks are used without an <OpenFeatureProvider>, so they cannot reach the OpenFeature client"
+        : "No <OpenFeatureProvider> found",
+    ...(hooks.length > 0 ? { locations: hooks } : {}),
+    fix: "Wrap the root component: <OpenFeatureProvider><App /></OpenFeatureProvider>",
+  };
+}
+
+/**
+ * Verifies an OpenFeature installation by static inspection of a project:
+ * the SDK and provider packages in its manifests and lockfile, a provider
+ * registered in the source, and common mistakes such as a registration that
+ * is not awaited. Returns a checklist of passed and failed checks.
+ */
+export async function verifyInstallation(
+  directory: string,
+  technology: string | undefined,
+  providers: string[]
+): Promise<InstallVerification> {
+  const detection = await detectProject(directory);
+  const target = technology ?? detection.technology;
+  if (!target) {
+    throw new Error(
+      `Could not detect the technology of ${detection.directory}; pass technology explicitly`
+    );
+  }
+  const notes = [...detection.notes];
+  if (
+    technology &&
+    detection.technology &&
+    technology !== detection.technology
+  ) {
+    notes.push(
+      `The project looks like ${detection.technology}, but checks ran for ${technology}.`
+    );
+  }
+
+  const lockfileName = detection.packageManager
+    ? LOCKFILES[detection.packageManager]
+    : undefined;
+  const lockfile =
+    lockfileName && (await exists(join(detection.directory, lockfileName)))
+      ? lockfileName
+      : undefined;
+
+  const rules = RULES[target as InstallTechnology];
+  const checks: VerificationCheck[] = [
+    sdkCheck(target, rules, detection, lockfile),
+    ...providerChecks(target, providers, detection, lockfile),
+  ];
+
+  if (rules) {
+    const wrongSdk = wrongSdkCheck(target, rules, detection);
+    if (wrongSdk) {
+      checks.push(wrongSdk);
+    }
+    const findings: SourceFindings = {
+      registrations: [],
+      unawaited: [],
+      wrappers: [],
+      hooks: [],
+    };
+    const scan = await readSourceFiles(detection.directory, (file) => {
+      if (!rules.extensions.includes(extname(file.path))) {
+        return;
+      }
+      const locate = locator(file);
+      findings.registrations.push(...findAll(file, rules.registration, locate));
+      if (rules.awaited) {
+        findings.unawaited.push(...findUnawaited(rules.awaited, file, locate));
+      }
+      if (target === "react") {
+        findings.wrappers.push(
+          ...findAll(file, /<OpenFeatureProvider\b/g, locate)
+        );
+        findings.hooks.push(...findAll(file, REACT_HOOK_PATTERN, locate));
+      }
+    });
+    if (scan.truncated) {
+      notes.push(
+        `Only the first ${scan.filesScanned} source files were inspected.`
+      );
+    }
+    checks.push(registrationCheck(rules, findings.registrations));
+    if (rules.awaited) {
+      checks.push(awaitCheck(rules.awaited, findings.unawaited));
+    }
+    if (target === "react") {
+      checks.push(reactProviderCheck(findings.wrappers, findings.hooks));
+    }
+  } else {
+    notes.push(
+      `No source checks are available for '${target}'; only dependencies were verified.`
+    );
+  }
+
+  const failed = checks.filter((check) => check.status === "fail").length;
+  return {
+    directory: detection.directory,
+    technology: target,
+    passed: failed === 0,
+    summary: `${checks.length - failed}/${checks.length} checks passed`,
+    checks,
+    notes,
+  };
+}
@@ -0,0 +1,134 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadCatalogs, resetCatalogs } from "../catalog.js";
+import { renderMigrationGuide, scanVendorCalls } from "./migrationTools.js";
+import { MIGRATION_VENDORS } from "./promptsBundle.generated.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("../fixtures/providers.json", import.meta.url)
+);
+
+describe("migrate_to_openfeature", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+  });
+
+  afterAll(() => {
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-migrate-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should keep only the blocks for the technology and inject the provider step", () => {
+    const guide = renderMigrationGuide("launchdarkly", "go");
+
+    expect(guide).toContain("ldClient.BoolVariation");
+    expect(guide).not.toContain("ldClient.boolVariation(");
+    expect(guide).not.toContain("Replace each LaunchDarkly `*Variation` call");
+    expect(guide).toContain("### Step 2: Provider installation");
+    expect(guide).toContain("**launchdarkly**");
+    expect(guide).not.toMatch(/(TECHNOLOGY|PROVIDERS|CALL_SITES):/);
+    expect(guide).toContain(
+      "call migrate_to_openfeature with a `directory` to list them"
+    );
+  });
+
+  it("should fall back to the generic block for other technologies", () => {
+    for (const vendor of MIGRATION_VENDORS) {
+      const guide = renderMigrationGuide(vendor, "ruby");
+      expect(guide).not.toMatch(/(TECHNOLOGY|PROVIDERS|CALL_SITES):/);
+      expect(guide).not.toContain("| --- | --- |\n| `unleash.isEnabled");
+      expect(guide).toContain("See the OpenFeature SDK reference");
+    }
+  });
+
+  it("should list vendor call sites as a checklist", async () => {
+    await mkdir(join(dir, "src"));
+    await writeFile(
+      join(dir, "src", "checkout.ts"),
+      [
+        'import { init, LDClient } from "@launchdarkly/node-server-sdk";',
+        "",
+        'const enabled = await ldClient.variation("new-checkout", context, false);',
+        'const limit = await ldClient.numberVariation("limit", context, 10);',
+        'ldClient.track("checkout", context, undefined, 42);',
+      ].join("\n")
+    );
+    await writeFile(join(dir, "src", "other.ts"), "export const x = 1;\n");
+
+    const scan = await scanVendorCalls(dir, "launchdarkly");
+
+    expect(scan.filesScanned).toBe(2);
+    expect(scan.callSites.map((site) => [site.location, site.api])).toEqual([
+      ["src/checkout.ts:1", "client setup"],
+      ["src/checkout.ts:3", "variation"],
+      ["src/checkout.ts:4", "typed variation"],
+      ["src/checkout.ts:5", "track"],
+    ]);
+
+    const guide = renderMigrationGuide("launchdarkly", "nodejs", scan);
+    expect(guide).toContain("Found 4 LaunchDarkly SDK call site(s)");
+    expect(guide).toContain(
+      '- [ ] `src/checkout.ts:3` (variation): `const enabled = await ldClient.variation("new-checkout", context, false);`'
+    );
+  });
+
+  it("should only list Unleash calls on an Unleash client", async () => {
+    await writeFile(
+      join(dir, "app.js"),
+      [
+        'const unleash = initialize({ url, appName: "checkout" });',
+        "if (button.isEnabled()) analytics.track('click');",
+        "socket.on('ready', start);",
+        "if (unleash.isEnabled('new-checkout')) render();",
+        "unleashClient.on('update', refresh);",
+      ].join("\n")
+    );
+
+    const scan = await scanVendorCalls(dir, "unleash");
+
+    expect(scan.callSites.map((site) => [site.location, site.api])).toEqual([
+      ["app.js:4", "isEnabled"],
+      ["app.js:5", "event listener"],
+    ]);
+  });
+
+  it("should paste call sites containing $ patterns verbatim", async () => {
+    await writeFile(
+      join(dir, "suffix.js"),
+      'const suffix = ldClient.variation("suffix", context, "$\'");\n'
+    );
+
+    const scan = await scanVendorCalls(dir, "launchdarkly");
+    const guide = renderMigrationGuide("launchdarkly", "nodejs", scan);
+
+    expect(guide).toContain(
+      '- [ ] `suffix.js:1` (variation): `const suffix = ldClient.variation("suffix", context, "$\'");`'
+    );
+    expect(guide.match(/## /g)?.length).toBe(
+      renderMigrationGuide("launchdarkly", "nodejs").match(/## /g)?.length
+    );
+  });
+});
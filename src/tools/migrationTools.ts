@@ -0,0 +1,394 @@
+import { resolve } from "node:path";
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RegisterToolWithErrorHandling } from "../server.js";
+import { getProviders, installTechnologySchema } from "../catalog.js";
+import { buildProviderResourceLinks } from "../resources.js";
+import { lineLocator, readSourceFiles } from "./flagUsage.js";
+import {
+  injectProviderSteps,
+  selectTechnologyBlocks,
+} from "./guideTemplating.js";
+import {
+  MIGRATION_GUIDES,
+  MIGRATION_VENDORS,
+  MigrationVendorSchema,
+  type MigrationVendor,
+} from "./promptsBundle.generated.js";
+
+type VendorCall = {
+  pattern: RegExp;
+  /** The vendor API the pattern finds. */
+  api: string;
+  /** What to replace it with. */
+  openFeature: string;
+};
+
+type VendorMigration = {
+  title: string;
+  /** Provider name in the provider catalog. */
+  provider: string;
+  /** Most specific patterns first: a line is reported for its first match. */
+  calls: VendorCall[];
+};
+
+export type VendorCallSite = {
+  location: string;
+  code: string;
+  api: string;
+  openFeature: string;
+};
+
+export type VendorCallScan = {
+  directory: string;
+  filesScanned: number;
+  truncated: boolean;
+  callSites: VendorCallSite[];
+};
+
+const TYPED_EVALUATION =
+  "the typed OpenFeature evaluation (getBooleanValue, getStringValue, getNumberValue, getObjectValue or the SDK's equivalent)";
+const TRACKING = "client.track(eventName, context, details)";
+const PROVIDER_SETUP = "register the provider with setProviderAndWait";
+
+const VENDORS: Record<MigrationVendor, VendorMigration> = {
+  launchdarkly: {
+    title: "LaunchDarkly",
+    provider: "launchdarkly",
+    calls: [
+      {
+        pattern:
+          /\b(?:[Bb]ool(?:ean)?|[Ss]tring|[Ii]nt|[Ff]loat(?:64)?|[Dd]ouble|[Nn]umber|[Jj](?:son|SON)(?:Value)?)Variation(?:Detail)?(?:Ctx)?\s*\(|\b(?:bool|string|int|float|json)_variation\s*\(/g,
+        api: "typed variation",
+        openFeature: `${TYPED_EVALUATION}; *Detail variants become get<Type>Details`,
+      },
+      {
+        pattern: /\.variation(?:Detail|_detail)?\s*\(/g,
+        api: "variation",
+        openFeature: `${TYPED_EVALUATION} matching the default value's type`,
+      },
+      {
+        pattern:
+          /\ballFlags(?:State)?\s*\(|\ball_flags_state\s*\(|\bAllFlagsState\s*\(/g,
+        api: "allFlags",
+        openFeature: "evaluate the flags you need individually",
+      },
+      {
+        pattern: /\.identify\s*\(/g,
+        api: "identify",
+        openFeature: "OpenFeature.setContext(context)",
+      },
+      {
+        pattern: /\.[Tt]rack(?:Event|Data|Metric)?\s*\(/g,
+        api: "track",
+        openFeature: TRACKING,
+      },
+      {
+        pattern: /\b(?:LDClient|LdClient|ldclient|LaunchDarkly)\b/g,
+        api: "client setup",
+        openFeature: PROVIDER_SETUP,
+      },
+    ],
+  },
+  // Unleash method names are generic (isEnabled, on), so calls only count on
+  // a receiver named after Unleash, e.g. `unleash.isEnabled(` or
+  // `unleashClient.getVariant(`
+  unleash: {
+    title: "Unleash",
+    provider: "unleash",
+    calls: [
+      {
+        pattern: /\b\w*[Uu]nleash\w*\.(?:is_?[Ee]nabled|IsEnabled)\s*\(/g,
+        api: "isEnabled",
+        openFeature:
+          "getBooleanValue with the Unleash fallback as the default value",
+      },
+      {
+        pattern:
+          /\b\w*[Uu]nleash\w*\.(?:get_?[Vv]ariant|GetVariant)\s*\(|\buseVariant\s*\(/g,
+        api: "getVariant",
+        openFeature:
+          "getStringValue/getObjectValue for the payload, or get<Type>Details for the variant name",
+      },
+      {
+        pattern: /\buseFlag\s*\(\s*['"][^'"]+['"]\s*\)/g,
+        api: "useFlag (Unleash React)",
+        openFeature: "useBooleanFlagValue(flagKey, defaultValue)",
+      },
+      {
+        pattern: /\b\w*[Uu]nleash\w*\.(?:updateContext|setContextField)\s*\(/g,
+        api: "updateContext",
+        openFeature: "OpenFeature.setContext(context)",
+      },
+      {
+        pattern:
+          /\b\w*[Uu]nleash\w*\.on\s*\(\s*['"](?:ready|synchronized|update|changed)['"]/g,
+        api: "event listener",
+        openFeature: "addHandler(ProviderEvents.Ready / ConfigurationChanged)",
+      },
+      {
+        pattern:
+          /\bnew\s+Unleash(?:Client)?\b|\bUnleashClient\s*\(|\bunleash\.Initialize\s*\(|\bstartUnleash\s*\(/g,
+        api: "client setup",
+        openFeature: PROVIDER_SETUP,
+      },
+    ],
+  },
+  flagsmith: {
+    title: "Flagsmith",
+    provider: "flagsmith",
+    calls: [
+      {
+        pattern:
+          /\b(?:isFeatureEnabled|is_feature_enabled|IsFeatureEnabled|hasFeature)\s*\(/g,
+        api: "isFeatureEnabled",
+        openFeature: "getBooleanValue",
+      },
+      {
+        pattern:
+          /\b(?:getFeatureValue|get_feature_value|GetFeatureValue)\s*\(|\bflagsmith\.getValue\s*\(/g,
+        api: "getFeatureValue",
+        openFeature: TYPED_EVALUATION,
+      },
+      {
+        pattern:
+          /\b(?:getIdentityFlags|get_identity_flags|GetIdentityFlags)\s*\(/g,
+        api: "getIdentityFlags",
+        openFeature:
+          "pass the identifier as targetingKey and the traits as context attributes",
+      },
+      {
+        pattern:
+          /\b(?:getEnvironmentFlags|get_environment_flags|GetEnvironmentFlags)\s*\(/g,
+        api: "getEnvironmentFlags",
+        openFeature: "evaluate each flag through the OpenFeature client",
+      },
+      {
+        pattern: /\bflagsmith\.(?:identify|setTraits?)\s*\(/g,
+        api: "identify",
+        openFeature: "OpenFeature.setContext(context)",
+      },
+      {
+        pattern: /\buseFlags\s*\(/g,
+        api: "useFlags (Flagsmith React)",
+        openFeature: "useBooleanFlagValue / use<Type>FlagValue",
+      },
+      {
+        pattern:
+          /\bnew\s+Flagsmith(?:Client)?\b|\bflagsmith\.init\s*\(|\bFlagsmith\s*\(/g,
+        api: "client setup",
+        openFeature: PROVIDER_SETUP,
+      },
+    ],
+  },
+  split: {
+    title: "Split",
+    provider: "split",
+    calls: [
+      {
+        pattern:
+          /\b(?:get_?[Tt]reatments|GetTreatments|Treatments)(?:_with_config|WithConfig)?\s*\(/g,
+        api: "getTreatments",
+        openFeature: "one evaluation per flag",
+      },
+      {
+        pattern:
+          /\b(?:get_?[Tt]reatment|GetTreatment|Treatment)(?:_with_config|WithConfig)?\s*\(/g,
+        api: "getTreatment",
+        openFeature:
+          "getBooleanValue for on/off treatments, getStringValue otherwise; `control` becomes the default value",
+      },
+      {
+        pattern: /\buse(?:Split)?Treatments\s*\(/g,
+        api: "useTreatments (Split React)",
+        openFeature: "useBooleanFlagValue / useStringFlagValue",
+      },
+      {
+        pattern:
+          /\.ready\s*\(\s*\)|\bblock_until_ready\s*\(|\b[Bb]lockUntilReady\s*\(|\bSDK_READY\b/g,
+        api: "readiness",
+        openFeature: "setProviderAndWait or addHandler(ProviderEvents.Ready)",
+      },
+      {
+        pattern: /\.[Tt]rack\s*\(/g,
+        api: "track",
+        openFeature: TRACKING,
+      },
+      {
+        pattern:
+          /\bSplitFactory(?:Builder)?\b|\bget_factory\s*\(|\bNewSplitFactory\s*\(/g,
+        api: "client setup",
+        openFeature: PROVIDER_SETUP,
+      },
+    ],
+  },
+};
+
+const MAX_LISTED_CALL_SITES = 200;
+
+const PROVIDERS_MARKERS = /<!--\s*PROVIDERS:(?:START|END)\s*-->\n?/g;
+const CALL_SITES_BLOCK =
+  /<!--\s*CALL_SITES:START\s*-->[\s\S]*?<!--\s*CALL_SITES:END\s*-->/;
+
+function migrateArgsSchema() {
+  return z.object({
+    technology: installTechnologySchema().describe(
+      "Technology of the application, as for install_openfeature_sdk"
+    ),
+    vendor: MigrationVendorSchema.describe(
+      "Feature flag vendor whose SDK the application calls directly"
+    ),
+    directory: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Source tree to scan for vendor SDK calls (absolute, or relative to the server's working directory). Without it, the checklist lists the calls to search for."
+      ),
+  });
+}
+
+/**
+ * Finds direct calls of a vendor SDK in a source tree. Each line is reported
+ * once, for the first (most specific) vendor call it matches.
+ */
+export async function scanVendorCalls(
+  directory: string,
+  vendor: MigrationVendor
+): Promise<VendorCallScan> {
+  const root = resolve(directory);
+  const callSites: VendorCallSite[] = [];
+  const { filesScanned, truncated } = await readSourceFiles(
+    root,
+    ({ path, source }) => {
+      const lines = source.split("\n");
+      const lineAt = lineLocator(source);
+      const seen = new Set<number>();
+      const found: Array<{ line: number; site: VendorCallSite }> = [];
+      for (const call of VENDORS[vendor].calls) {
+        for (const match of source.matchAll(call.pattern)) {
+          const line = lineAt(match.index!);
+          if (seen.has(line)) {
+            continue;
+          }
+          seen.add(line);
+          found.push({
+            line,
+            site: {
+              location: `${path}:${line}`,
+              code: lines[line - 1].trim().slice(0, 160),
+              api: call.api,
+              openFeature: call.openFeature,
+            },
+          });
+        }
+      }
+      found.sort((a, b) => a.line - b.line);
+      callSites.push(...found.map(({ site }) => site));
+    }
+  );
+  return { directory: root, filesScanned, truncated, callSites };
+}
+
+function callSiteChecklist(
+  vendor: MigrationVendor,
+  scan: VendorCallScan | undefined
+): string {
+  const { title, calls } = VENDORS[vendor];
+  if (!scan) {
+    return [
+      `Search the codebase for these ${title} SDK calls (regular expressions) and rewrite each call site (call migrate_to_openfeature with a \`directory\` to list them):`,
+      "",
+      ...calls.map(
+        (call) =>
+          `- [ ] ${call.api}: \`${call.pattern.source}\` → ${call.openFeature}`
+      ),
+    ].join("\n");
+  }
+  if (scan.callSites.length === 0) {
+    return `No ${title} SDK calls found in ${scan.directory} (${scan.filesScanned} files scanned). Check generated code, templates and other languages in the repository before removing the ${title} SDK.`;
+  }
+  const listed = scan.callSites.slice(0, MAX_LISTED_CALL_SITES);
+  const notes = [
+    ...(scan.callSites.length > listed.length
+      ? [
+          `Only the first ${listed.length} of ${scan.callSites.length} call sites are listed.`,
+        ]
+      : []),
+    ...(scan.truncated
+      ? [`Only the first ${scan.filesScanned} source files were scanned.`]
+      : []),
+  ];
+  return [
+    `Found ${scan.callSites.length} ${title} SDK call site(s) in ${scan.directory}. Rewrite each one and tick it off:`,
+    "",
+    ...listed.map(
+      (site) =>
+        `- [ ] \`${site.location}\` (${site.api}): \`${site.code}\` → ${site.openFeature}`
+    ),
+    ...(notes.length > 0 ? ["", ...notes] : []),
+  ].join("\n");
+}
+
+/**
+ * Renders the migration guide for a vendor and technology: the matching
+ * technology blocks, the provider installation steps and the call-site
+ * checklist.
+ */
+export function renderMigrationGuide(
+  vendor: MigrationVendor,
+  technology: string,
+  scan?: VendorCallScan
+): string {
+  const { provider } = VENDORS[vendor];
+  let guide = selectTechnologyBlocks(MIGRATION_GUIDES[vendor], technology);
+  guide = getProviders().includes(provider)
+    ? injectProviderSteps(guide, technology, [provider])
+    : // Keep the guide's generic provider step when the catalog lacks it
+      guide.replace(PROVIDERS_MARKERS, "");
+  // A function replacer, so `$` patterns in scanned code are not expanded
+  const checklist = callSiteChecklist(vendor, scan);
+  return guide.replace(CALL_SITES_BLOCK, () => checklist);
+}
+
+export function registerMigrationTools(
+  registerToolWithErrorHandling: RegisterToolWithErrorHandling
+): void {
+  const MigrateArgsSchema = migrateArgsSchema();
+  registerToolWithErrorHandling(
+    "migrate_to_openfeature",
+    {
+      description: [
+        `Migrate an application from a vendor SDK (${MIGRATION_VENDORS.join(
+          ", "
+        )}) to OpenFeature.`,
+        "Returns a guide mapping the vendor's API calls to OpenFeature equivalents for the technology,",
+        "the installation steps for the vendor's OpenFeature provider,",
+        "and a checklist of call sites to rewrite, found by scanning the directory when one is given.",
+      ].join(" "),
+      annotations: {
+        title: "Migrate to OpenFeature",
+        readOnlyHint: true,
+      },
+      inputSchema: MigrateArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { vendor, technology, directory } = MigrateArgsSchema.parse(args);
+      const scan = directory
+        ? await scanVendorCalls(directory, vendor)
+        : undefined;
+      const { provider } = VENDORS[vendor];
+      const providers = getProviders().includes(provider) ? [provider] : [];
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: renderMigrationGuide(vendor, technology, scan),
+          },
+          ...buildProviderResourceLinks(providers, technology),
+        ],
+      };
+    }
+  );
+}
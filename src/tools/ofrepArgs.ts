@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { ContextPresetNameSchema } from "./ofrepConfig.js";
+
+// Tool arguments shared by the tools that call an OFREP flag service
+
+export const BaseUrlSchema = z
+  .string()
+  .url()
+  .describe(
+    "Base URL of your OFREP-compatible flag service. Must be set directly or via environment variables or config file."
+  );
+
+export const EnvironmentNameSchema = z
+  .string()
+  .min(1)
+  .describe(
+    "Name of an OFREP environment from the config file (see ofrep_list_environments). Defaults to the configured default environment."
+  );
+
+export const EvaluationContextSchema = z
+  .object({
+    targetingKey: z
+      .string()
+      .optional()
+      .describe(
+        "A string logically identifying the subject of evaluation (end-user, service, etc). Should be set in the majority of cases."
+      ),
+  })
+  .passthrough();
+
+export const ContextPresetSchema = ContextPresetNameSchema.describe(
+  "Name of a saved evaluation context (see ofrep_list_context_presets). Merged over the environment's default context; an explicit context is merged over the preset."
+);
+
+export const AuthSchema = z.object({
+  bearer_token: z.string().min(1).optional(),
+  api_key: z.string().min(1).optional(),
+});
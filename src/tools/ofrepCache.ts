@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import type { OFREPConfig } from "./ofrepConfig.js";
+import { stableStringify } from "./ofrepDiff.js";
+import type { BulkEvaluationSuccess, OFREPDiagnostic } from "./ofrepSchemas.js";
+
+const MAX_ENTRIES = 200;
+
+export type BulkCacheEntry = {
+  etag?: string;
+  data: BulkEvaluationSuccess;
+  raw: unknown;
+  diagnostics: OFREPDiagnostic[];
+  storedAt: number;
+  expiresAt: number;
+};
+
+type CacheDirectives = {
+  noStore: boolean;
+  maxAgeSeconds?: number;
+};
+
+// Process-wide: entries are keyed by credentials identity, so sessions never
+// see flag sets fetched with someone else's credentials.
+const bulkCache = new Map<string, BulkCacheEntry>();
+
+function defaultTtlSeconds(): number {
+  const raw = process.env.OPENFEATURE_OFREP_CACHE_TTL_SECONDS;
+  const parsed = raw ? Number.parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+export function isBulkCacheEnabled(): boolean {
+  const raw = process.env.OPENFEATURE_OFREP_CACHE;
+  return !(raw === "false" || raw === "0");
+}
+
+/**
+ * Builds the cache key from the base URL, a hash of the credentials and the
+ * normalized evaluation context. Raw credentials are never stored.
+ */
+export function bulkCacheKey(
+  cfg: OFREPConfig,
+  context: Record<string, unknown> | undefined
+): string {
+  const credentials = createHash("sha256")
+    .update(`${cfg.bearerToken ?? ""}\u0000${cfg.apiKey ?? ""}`)
+    .digest("hex")
+    .slice(0, 16);
+  return [
+    cfg.baseUrl.replace(/\/$/, ""),
+    credentials,
+    stableStringify(context ?? {}),
+  ].join("|");
+}
+
+export function parseCacheControl(header: string | null): CacheDirectives {
+  const directives: CacheDirectives = { noStore: false };
+  if (!header) {
+    return directives;
+  }
+  for (const part of header.split(",")) {
+    const [name, value] = part.trim().toLowerCase().split("=");
+    if (name === "no-store") {
+      directives.noStore = true;
+    } else if (name === "no-cache") {
+      directives.maxAgeSeconds = 0;
+    } else if (name === "max-age" && directives.maxAgeSeconds !== 0) {
+      const seconds = Number.parseInt(value ?? "", 10);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        directives.maxAgeSeconds = seconds;
+      }
+    }
+  }
+  return directives;
+}
+
+function expiresAt(directives: CacheDirectives, now: number): number {
+  const ttl = directives.maxAgeSeconds ?? defaultTtlSeconds();
+  return now + ttl * 1000;
+}
+
+export function getCachedBulk(key: string): BulkCacheEntry | undefined {
+  const entry = bulkCache.get(key);
+  if (entry) {
+    // Re-insert to keep Map order as least-recently-used first
+    bulkCache.delete(key);
+    bulkCache.set(key, entry);
+  }
+  return entry;
+}
+
+export function isFresh(entry: BulkCacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt > now;
+}
+
+/**
+ * Stores a bulk evaluation, unless `Cache-Control: no-store` is set or the
+ * response can be neither revalidated (no ETag) nor served fresh (no TTL).
+ */
+export function storeBulk(
+  key: string,
+  entry: Omit<BulkCacheEntry, "storedAt" | "expiresAt">,
+  cacheControl: string | null
+): void {
+  const directives = parseCacheControl(cacheControl);
+  const now = Date.now();
+  const expiry = expiresAt(directives, now);
+  if (directives.noStore || (!entry.etag && expiry <= now)) {
+    bulkCache.delete(key);
+    return;
+  }
+
+  bulkCache.delete(key);
+  bulkCache.set(key, { ...entry, storedAt: now, expiresAt: expiry });
+  while (bulkCache.size > MAX_ENTRIES) {
+    const oldest = bulkCache.keys().next().value as string;
+    bulkCache.delete(oldest);
+  }
+}
+
+/**
+ * Extends a cached entry after the service confirmed it with 304 Not Modified.
+ */
+export function refreshBulk(
+  key: string,
+  entry: BulkCacheEntry,
+  cacheControl: string | null
+): BulkCacheEntry {
+  const directives = parseCacheControl(cacheControl);
+  if (directives.noStore) {
+    bulkCache.delete(key);
+    return entry;
+  }
+  const refreshed = { ...entry, expiresAt: expiresAt(directives, Date.now()) };
+  bulkCache.set(key, refreshed);
+  return refreshed;
+}
+
+export function clearBulkCache(): void {
+  bulkCache.clear();
+}
@@ -0,0 +1,354 @@
+import { logger } from "../logger.js";
+import type { OFREPConfig } from "./ofrepConfig.js";
+import {
+  parseBulkEvaluationSuccess,
+  EvaluationFailureSchema,
+  parseEvaluationSuccess,
+  validateErrorBody,
+  type BulkEvaluationSuccess,
+  type BulkFlagEvaluation,
+  type EvaluationSuccess,
+  type OFREPDiagnostic,
+} from "./ofrepSchemas.js";
+import {
+  bulkCacheKey,
+  getCachedBulk,
+  isBulkCacheEnabled,
+  isFresh,
+  refreshBulk,
+  storeBulk,
+  type BulkCacheEntry,
+} from "./ofrepCache.js";
+import { fetchWithRetry, type FailureReason } from "./ofrepRetry.js";
+import { recordEvaluations } from "./ofrepHistory.js";
+
+export type OFREPRequest = {
+  flag_key?: string;
+  context?: Record<string, unknown>;
+  etag?: string;
+  bypass_cache?: boolean;
+};
+
+/**
+ * How a bulk evaluation was served: `hit` from a fresh cache entry without a
+ * request, `revalidated` from the cache after a 304, `miss` from the network
+ * (and cached if allowed), `bypass` from the network without touching the cache.
+ */
+export type CacheStatus = "hit" | "revalidated" | "miss" | "bypass";
+
+/**
+ * Why an OFREP call finally failed, after any retries.
+ */
+export type OFREPFailure = {
+  reason: FailureReason;
+  message: string;
+  attempts: number;
+  retryAfterSeconds?: number;
+};
+
+/**
+ * Outcome of a single OFREP HTTP call. Transport and protocol failures are
+ * returned rather than thrown so callers can report them per request.
+ * `diagnostics` lists spec violations in the flag service response; `data`
+ * only holds the parts of the body that passed validation, `raw` the body as sent.
+ */
+export type OFREPResponse =
+  | {
+      kind: "success";
+      status: number;
+      etag?: string;
+      data?: EvaluationSuccess | BulkEvaluationSuccess;
+      raw: unknown;
+      diagnostics: OFREPDiagnostic[];
+      cache?: CacheStatus;
+    }
+  | { kind: "not_modified"; status: 304; etag?: string }
+  | {
+      kind: "http_error";
+      status: number;
+      error: unknown;
+      diagnostics: OFREPDiagnostic[];
+      failure: OFREPFailure;
+    }
+  | { kind: "error"; error: string; failure: OFREPFailure };
+
+export function isSingleFlagRequest(request: OFREPRequest): boolean {
+  return typeof request.flag_key === "string" && request.flag_key.length > 0;
+}
+
+function httpFailureReason(status: number): FailureReason {
+  if (status === 429) {
+    return "rate_limited";
+  }
+  if (status === 502 || status === 503 || status === 504) {
+    return "server_unavailable";
+  }
+  return "http_error";
+}
+
+function attemptsSuffix(attempts: number): string {
+  return attempts > 1 ? ` after ${attempts} attempts` : "";
+}
+
+function fromCache(
+  entry: BulkCacheEntry,
+  status: number,
+  cache: CacheStatus
+): OFREPResponse {
+  return {
+    kind: "success",
+    status,
+    etag: entry.etag,
+    data: entry.data,
+    raw: entry.raw,
+    diagnostics: entry.diagnostics,
+    cache,
+  };
+}
+
+/**
+ * Sends a single or bulk OFREP evaluation request.
+ *
+ * Bulk requests go through the in-process cache unless `bypass_cache` is set:
+ * fresh entries are served without a request, stale ones are revalidated with
+ * `If-None-Match`. A caller-supplied `etag` always forces a conditional request.
+ *
+ * Evaluations answered by the flag service (not served from the cache) are
+ * appended to the evaluation history when it is enabled.
+ */
+export async function fetchOFREP(
+  cfg: OFREPConfig & { environment?: string },
+  request: OFREPRequest
+): Promise<OFREPResponse> {
+  const base = cfg.baseUrl.replace(/\/$/, "");
+  const isSingleFlagEval = isSingleFlagRequest(request);
+  const url = isSingleFlagEval
+    ? `${base}/ofrep/v1/evaluate/flags/${encodeURIComponent(
+        request.flag_key as string
+      )}`
+    : `${base}/ofrep/v1/evaluate/flags`;
+
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+    accept: "application/json",
+  };
+
+  if (cfg.bearerToken) {
+    headers["authorization"] = `Bearer ${cfg.bearerToken}`;
+  } else if (cfg.apiKey) {
+    headers["X-API-Key"] = cfg.apiKey;
+  }
+  if (!isSingleFlagEval && request.etag) {
+    headers["If-None-Match"] = request.etag;
+  }
+
+  const useCache =
+    !isSingleFlagEval && !request.bypass_cache && isBulkCacheEnabled();
+  const cacheKey = useCache ? bulkCacheKey(cfg, request.context) : undefined;
+  const cached = cacheKey ? getCachedBulk(cacheKey) : undefined;
+  if (cached && !request.etag && isFresh(cached)) {
+    logger.debug("OFREP bulk evaluation served from cache", { url });
+    return fromCache(cached, 200, "hit");
+  }
+  if (cached?.etag && !request.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+
+  const body = JSON.stringify({
+    context: request.context ?? {},
+  });
+
+  let attempts = 1;
+  try {
+    logger.debug("Fetching OFREP API", {
+      url,
+      context: request.context ?? {},
+    });
+    const outcome = await fetchWithRetry(url, {
+      method: "POST",
+      headers,
+      body,
+    });
+    attempts = outcome.attempts;
+    if (!outcome.ok) {
+      const failure: OFREPFailure = {
+        reason: outcome.reason,
+        message: `${outcome.message}${attemptsSuffix(outcome.attempts)}`,
+        attempts: outcome.attempts,
+      };
+      logger.error("OFREP API error", { url, failure });
+      return { kind: "error", error: outcome.message, failure };
+    }
+    const response = outcome.response;
+
+    const etag =
+      response.headers.get("ETag") ??
+      response.headers.get("Etag") ??
+      response.headers.get("etag") ??
+      undefined;
+
+    logger.debug("OFREP API response", { url, status: response.status });
+    const cacheControl = response.headers.get("cache-control");
+    if (response.status === 304) {
+      // A caller-supplied ETag only maps to cached data if it is the one we hold
+      if (
+        cacheKey &&
+        cached &&
+        (!request.etag || request.etag === cached.etag)
+      ) {
+        const refreshed = refreshBulk(cacheKey, cached, cacheControl);
+        return fromCache(refreshed, 304, "revalidated");
+      }
+      return { kind: "not_modified", status: 304, etag };
+    }
+
+    // The body was read as text by fetchWithRetry; safely attempt JSON parse
+    const rawText = outcome.body;
+    let dataJSON: unknown = undefined;
+    if (rawText.length > 0) {
+      try {
+        dataJSON = JSON.parse(rawText);
+      } catch {
+        // not JSON; keep raw text
+      }
+    }
+
+    if (!response.ok) {
+      const error = dataJSON ?? rawText;
+      logger.error("OFREP API error", {
+        url,
+        status: response.status,
+        error,
+      });
+      if (isSingleFlagEval) {
+        const failure = EvaluationFailureSchema.safeParse({
+          key: request.flag_key,
+          ...(typeof dataJSON === "object" ? dataJSON : {}),
+        });
+        if (failure.success) {
+          await recordEvaluations(cfg, "single", request.context ?? {}, [
+            failure.data,
+          ]);
+        }
+      }
+      const retryAfterSeconds =
+        outcome.retryAfterMs !== undefined
+          ? Math.ceil(outcome.retryAfterMs / 1000)
+          : undefined;
+      return {
+        kind: "http_error",
+        status: response.status,
+        error,
+        diagnostics: validateErrorBody(
+          response.status,
+          dataJSON,
+          isSingleFlagEval
+        ),
+        failure: {
+          reason: httpFailureReason(response.status),
+          message:
+            `Flag service responded ${response.status}${attemptsSuffix(
+              attempts
+            )}` +
+            (retryAfterSeconds !== undefined
+              ? ` (Retry-After: ${retryAfterSeconds}s)`
+              : ""),
+          attempts,
+          ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
+        },
+      };
+    }
+
+    if (!dataJSON) {
+      throw new Error("No JSON data returned from OFREP API");
+    }
+
+    const { data, diagnostics } = isSingleFlagEval
+      ? parseEvaluationSuccess(dataJSON)
+      : parseBulkEvaluationSuccess(dataJSON);
+    if (diagnostics.length > 0) {
+      logger.warn("OFREP API response violates the OFREP spec", {
+        url,
+        diagnostics,
+      });
+    }
+
+    if (cacheKey && data && "flags" in data) {
+      storeBulk(
+        cacheKey,
+        { etag, data, raw: dataJSON, diagnostics },
+        cacheControl
+      );
+    }
+
+    if (data) {
+      await recordEvaluations(
+        cfg,
+        isSingleFlagEval ? "single" : "bulk",
+        request.context ?? {},
+        "flags" in data ? data.flags : [data],
+        isSingleFlagEval ? undefined : etag
+      );
+    }
+
+    logger.debug("OFREP API success", { url, status: response.status });
+    return {
+      kind: "success",
+      status: response.status,
+      etag: isSingleFlagEval ? undefined : etag,
+      data,
+      raw: dataJSON,
+      diagnostics,
+      ...(isSingleFlagEval
+        ? {}
+        : { cache: (cacheKey ? "miss" : "bypass") as CacheStatus }),
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    logger.error("OFREP API error", { url, error });
+    return {
+      kind: "error",
+      error,
+      failure: { reason: "invalid_response", message: error, attempts },
+    };
+  }
+}
+
+/**
+ * Runs a bulk evaluation and returns the validated flags, throwing when the
+ * request fails or the response has no usable flag set.
+ */
+export async function fetchBulkEvaluation(
+  cfg: OFREPConfig,
+  context: Record<string, unknown>,
+  label: string = cfg.baseUrl
+): Promise<{
+  etag?: string;
+  flags: BulkFlagEvaluation[];
+  diagnostics: OFREPDiagnostic[];
+}> {
+  const response = await fetchOFREP(cfg, { context });
+  if (response.kind !== "success") {
+    const detail =
+      response.kind === "http_error"
+        ? `status ${response.status}: ${JSON.stringify(
+            response.error
+          )}${attemptsSuffix(response.failure.attempts)}`
+        : response.kind === "error"
+        ? response.failure.message
+        : "unexpected 304 Not Modified";
+    throw new Error(`Bulk evaluation failed for '${label}' (${detail})`);
+  }
+  if (!response.data || !("flags" in response.data)) {
+    throw new Error(
+      `Bulk evaluation for '${label}' returned an invalid response: ${JSON.stringify(
+        response.diagnostics
+      )}`
+    );
+  }
+  return {
+    etag: response.etag,
+    flags: response.data.flags,
+    diagnostics: response.diagnostics,
+  };
+}
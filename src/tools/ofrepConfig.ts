@@ -0,0 +1,469 @@
+import { z } from "zod";
+import { randomUUID } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import { logger } from "../logger.js";
+
+export const DEFAULT_ENVIRONMENT_NAME = "default";
+export const LOCAL_ENVIRONMENT_NAME = "local";
+
+const REDACTED = "[REDACTED]";
+
+export const OFREPConfigSchema = z
+  .object({
+    baseUrl: z.string().min(1),
+    bearerToken: z.string().optional(),
+    apiKey: z.string().optional(),
+  })
+  .refine((data) => data.bearerToken || data.apiKey, {
+    message: "At least one of bearerToken or apiKey must be provided",
+    path: ["bearerToken"],
+  });
+export type OFREPConfig = z.infer<typeof OFREPConfigSchema>;
+
+const EvaluationContextSchema = z.record(z.string(), z.unknown());
+
+const OFREPEnvironmentSchema = z.object({
+  baseUrl: z.string().min(1),
+  bearerToken: z.string().optional(),
+  apiKey: z.string().optional(),
+  context: EvaluationContextSchema.optional(),
+});
+export type OFREPEnvironment = z.infer<typeof OFREPEnvironmentSchema>;
+
+const OFREPEnvironmentsSchema = z
+  .object({
+    defaultEnvironment: z.string().min(1).optional(),
+    environments: z.record(z.string().min(1), OFREPEnvironmentSchema),
+  })
+  .refine(
+    (data) =>
+      !data.defaultEnvironment || data.defaultEnvironment in data.environments,
+    {
+      message:
+        "defaultEnvironment must name one of the configured environments",
+      path: ["defaultEnvironment"],
+    }
+  );
+
+export const ContextPresetNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9][\w.-]*$/,
+    "Preset names may contain letters, digits, '.', '_' and '-'"
+  );
+
+const ContextPresetsSchema = z.record(
+  ContextPresetNameSchema,
+  EvaluationContextSchema
+);
+
+const OFREPSectionSchema = z.union([
+  OFREPEnvironmentsSchema,
+  OFREPEnvironmentSchema,
+]);
+
+type ConfigFile = {
+  OFREP?: z.infer<typeof OFREPSectionSchema>;
+  contextPresets: Record<string, Record<string, unknown>>;
+};
+
+type OFREPEnvironments = {
+  defaultEnvironment?: string;
+  environments: Record<string, OFREPEnvironment>;
+};
+
+/**
+ * Resolved OFREP settings for a single call: connection details plus the
+ * default evaluation context of the selected environment (if any).
+ */
+export type ResolvedOFREPConfig = OFREPConfig & {
+  environment?: string;
+  context?: Record<string, unknown>;
+};
+
+export type ConfigOverrides = {
+  base_url?: string;
+  environment?: string;
+  context_preset?: string;
+  auth?: {
+    bearer_token?: string;
+    api_key?: string;
+  };
+};
+
+export function getConfigPath(): string {
+  const explicitPath = process.env.OPENFEATURE_MCP_CONFIG_PATH;
+  const defaultPath = resolve(homedir(), ".openfeature-mcp.json");
+  return explicitPath && explicitPath.length > 0 ? explicitPath : defaultPath;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates each context preset on its own, so a hand-edited preset with an
+ * invalid name or context drops only itself.
+ */
+function parseContextPresets(
+  raw: unknown,
+  path: string
+): Record<string, Record<string, unknown>> {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!isObject(raw)) {
+    logger.warn(`Ignoring invalid contextPresets in ${path}`);
+    return {};
+  }
+  const presets: Record<string, Record<string, unknown>> = {};
+  for (const [name, context] of Object.entries(raw)) {
+    const parsed = ContextPresetsSchema.safeParse({ [name]: context });
+    if (parsed.success) {
+      Object.assign(presets, parsed.data);
+    } else {
+      logger.warn(`Ignoring invalid context preset '${name}' in ${path}`, {
+        error: parsed.error,
+      });
+    }
+  }
+  return presets;
+}
+
+async function readConfigFile(): Promise<ConfigFile | null> {
+  const path = getConfigPath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, { encoding: "utf-8" }));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      logger.warn(`Ignoring invalid OpenFeature MCP config file at ${path}`, {
+        error: err,
+      });
+    }
+    return null;
+  }
+  if (!isObject(raw)) {
+    logger.warn(`Ignoring invalid OpenFeature MCP config file at ${path}`);
+    return null;
+  }
+
+  let OFREP: ConfigFile["OFREP"];
+  if (raw.OFREP !== undefined) {
+    const parsed = OFREPSectionSchema.safeParse(raw.OFREP);
+    if (parsed.success) {
+      OFREP = parsed.data;
+    } else {
+      logger.warn(`Ignoring invalid OFREP settings in ${path}`, {
+        error: parsed.error,
+      });
+    }
+  }
+  return {
+    OFREP,
+    contextPresets: parseContextPresets(raw.contextPresets, path),
+  };
+}
+
+/**
+ * Reads the OFREP section of the config file, normalising the legacy single
+ * `OFREP` block into an environment named `default`. The legacy block does not
+ * set `defaultEnvironment`: as the only environment it is the default anyway,
+ * and the local environment takes precedence when there is one.
+ */
+async function readConfigFromFile(): Promise<OFREPEnvironments | null> {
+  const OFREP = (await readConfigFile())?.OFREP;
+  if (!OFREP) {
+    return null;
+  }
+  if ("environments" in OFREP) {
+    return OFREP;
+  }
+  return { environments: { [DEFAULT_ENVIRONMENT_NAME]: OFREP } };
+}
+
+// Set when the server runs an in-process local OFREP server (`--local-flags`)
+let localEnvironment: OFREPEnvironment | undefined;
+
+/**
+ * Registers the in-process local OFREP server as the `local` environment.
+ * It becomes the default environment unless the config file sets
+ * `defaultEnvironment` explicitly.
+ */
+export function registerLocalEnvironment(
+  environment: OFREPEnvironment | undefined
+): void {
+  localEnvironment = environment;
+}
+
+async function loadEnvironments(): Promise<OFREPEnvironments | null> {
+  const fileCfg = await readConfigFromFile();
+  if (!localEnvironment) {
+    return fileCfg;
+  }
+  return {
+    defaultEnvironment: fileCfg?.defaultEnvironment ?? LOCAL_ENVIRONMENT_NAME,
+    environments: {
+      [LOCAL_ENVIRONMENT_NAME]: localEnvironment,
+      ...fileCfg?.environments,
+    },
+  };
+}
+
+function defaultEnvironmentName(
+  fileCfg: OFREPEnvironments
+): string | undefined {
+  const fromEnv = process.env.OPENFEATURE_OFREP_ENVIRONMENT;
+  if (fromEnv && fromEnv.length > 0) {
+    return fromEnv;
+  }
+  if (fileCfg.defaultEnvironment) {
+    return fileCfg.defaultEnvironment;
+  }
+  const names = Object.keys(fileCfg.environments);
+  return names.length === 1 ? names[0] : undefined;
+}
+
+// Own entries only, so names such as "constructor" are not read from the
+// object prototype
+function environmentConfig(
+  fileCfg: OFREPEnvironments | null,
+  name: string
+): OFREPEnvironment | undefined {
+  return fileCfg && Object.hasOwn(fileCfg.environments, name)
+    ? fileCfg.environments[name]
+    : undefined;
+}
+
+/**
+ * Resolves the OFREP connection settings for a call.
+ *
+ * Without an explicit `environment`, the priority is: tool args, environment
+ * variables, then the default environment from the config file. When an
+ * `environment` is named, its settings take priority over environment
+ * variables (tool args still win).
+ *
+ * The resolved `context` is the environment's default context with the
+ * `context_preset` (if any) merged over it.
+ */
+export async function resolveConfig(
+  args: ConfigOverrides
+): Promise<ResolvedOFREPConfig> {
+  const envBase =
+    process.env.OPENFEATURE_OFREP_BASE_URL ?? process.env.OFREP_BASE_URL;
+  const envBearer =
+    process.env.OPENFEATURE_OFREP_BEARER_TOKEN ??
+    process.env.OFREP_BEARER_TOKEN;
+  const envApiKey =
+    process.env.OPENFEATURE_OFREP_API_KEY ?? process.env.OFREP_API_KEY;
+
+  const fileCfg = await loadEnvironments();
+
+  let environment: string | undefined;
+  let envCfg: OFREPEnvironment | undefined;
+  if (args.environment) {
+    envCfg = environmentConfig(fileCfg, args.environment);
+    if (!envCfg) {
+      const available = fileCfg ? Object.keys(fileCfg.environments) : [];
+      throw new Error(
+        `OFREP environment '${
+          args.environment
+        }' is not configured in ${getConfigPath()}. ` +
+          `Available environments: ${
+            available.length ? available.join(", ") : "(none)"
+          }`
+      );
+    }
+    environment = args.environment;
+  } else if (fileCfg) {
+    environment = defaultEnvironmentName(fileCfg);
+    envCfg = environment ? environmentConfig(fileCfg, environment) : undefined;
+  }
+
+  const explicit = !!args.environment;
+  const baseUrl =
+    args.base_url ??
+    (explicit ? envCfg?.baseUrl : undefined) ??
+    envBase ??
+    envCfg?.baseUrl;
+  const bearerToken =
+    args.auth?.bearer_token ??
+    (explicit ? envCfg?.bearerToken : undefined) ??
+    envBearer ??
+    envCfg?.bearerToken;
+  const apiKey =
+    args.auth?.api_key ??
+    (explicit ? envCfg?.apiKey : undefined) ??
+    envApiKey ??
+    envCfg?.apiKey;
+
+  const cfg = OFREPConfigSchema.parse({ baseUrl, bearerToken, apiKey });
+  const preset = args.context_preset
+    ? await getContextPreset(args.context_preset)
+    : undefined;
+  return {
+    ...cfg,
+    environment: envCfg ? environment : undefined,
+    context:
+      envCfg?.context || preset ? { ...envCfg?.context, ...preset } : undefined,
+  };
+}
+
+/**
+ * Lists configured environments from the config file with credentials redacted.
+ */
+export async function listEnvironments(): Promise<{
+  configPath: string;
+  defaultEnvironment?: string;
+  environments: Array<{
+    name: string;
+    baseUrl: string;
+    bearerToken?: string;
+    apiKey?: string;
+    context?: Record<string, unknown>;
+  }>;
+}> {
+  const configPath = getConfigPath();
+  const fileCfg = await loadEnvironments();
+  if (!fileCfg) {
+    return { configPath, environments: [] };
+  }
+
+  return {
+    configPath,
+    defaultEnvironment: defaultEnvironmentName(fileCfg),
+    environments: Object.entries(fileCfg.environments).map(([name, env]) => ({
+      name,
+      baseUrl: env.baseUrl,
+      ...(env.bearerToken ? { bearerToken: REDACTED } : {}),
+      ...(env.apiKey ? { apiKey: REDACTED } : {}),
+      ...(env.context ? { context: env.context } : {}),
+    })),
+  };
+}
+
+/**
+ * Lists the named evaluation contexts saved in the config file.
+ */
+export async function listContextPresets(): Promise<{
+  configPath: string;
+  presets: Record<string, Record<string, unknown>>;
+}> {
+  const file = await readConfigFile();
+  return { configPath: getConfigPath(), presets: file?.contextPresets ?? {} };
+}
+
+function presetNotDefined(
+  name: string,
+  configPath: string,
+  available: string[]
+): Error {
+  return new Error(
+    `Context preset '${name}' is not defined in ${configPath}. ` +
+      `Available presets: ${available.length ? available.join(", ") : "(none)"}`
+  );
+}
+
+export async function getContextPreset(
+  name: string
+): Promise<Record<string, unknown>> {
+  const { configPath, presets } = await listContextPresets();
+  if (!Object.hasOwn(presets, name)) {
+    throw presetNotDefined(name, configPath, Object.keys(presets));
+  }
+  return presets[name];
+}
+
+// Updates are chained so concurrent calls (possible over HTTP) never
+// overwrite each other's read-modify-write
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies a change to the raw config file, keeping any settings this server
+ * does not know about. Refuses to overwrite a file that does not hold a JSON
+ * object.
+ * Updates run one at a time.
+ */
+function updateConfigFile(
+  update: (config: Record<string, unknown>) => void
+): Promise<string> {
+  const result = pendingUpdate.then(() => writeConfigUpdate(update));
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+}
+
+async function writeConfigUpdate(
+  update: (config: Record<string, unknown>) => void
+): Promise<string> {
+  const path = getConfigPath();
+  let config: unknown = {};
+  try {
+    config = JSON.parse(await readFile(path, { encoding: "utf-8" }));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      throw new Error(
+        `Cannot update the OpenFeature MCP config file at ${path}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  }
+  if (!isObject(config)) {
+    throw new Error(
+      `Cannot update the OpenFeature MCP config file at ${path}: it does not hold a JSON object`
+    );
+  }
+  update(config);
+
+  // Write then rename so a concurrent reader never sees a partial file; the
+  // file may hold credentials, so it is only readable by the owner
+  const tmpPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+  await writeFile(tmpPath, `${JSON.stringify(config, null, 2)}\n`, {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  await rename(tmpPath, path);
+  return path;
+}
+
+// Presets as written in the file, including any that fail validation, so
+// saving or deleting one preset leaves the others untouched
+function rawContextPresets(
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  return isObject(config.contextPresets) ? { ...config.contextPresets } : {};
+}
+
+/**
+ * Saves a named evaluation context to the config file, replacing any preset
+ * with the same name.
+ */
+export async function saveContextPreset(
+  name: string,
+  context: Record<string, unknown>
+): Promise<{ configPath: string; replaced: boolean }> {
+  ContextPresetNameSchema.parse(name);
+  let replaced = false;
+  const configPath = await updateConfigFile((config) => {
+    const presets = rawContextPresets(config);
+    replaced = Object.hasOwn(presets, name);
+    config.contextPresets = { ...presets, [name]: context };
+  });
+  return { configPath, replaced };
+}
+
+export async function deleteContextPreset(
+  name: string
+): Promise<{ configPath: string }> {
+  const configPath = await updateConfigFile((config) => {
+    const presets = rawContextPresets(config);
+    if (!Object.hasOwn(presets, name)) {
+      throw presetNotDefined(name, getConfigPath(), Object.keys(presets));
+    }
+    delete presets[name];
+    config.contextPresets = presets;
+  });
+  return { configPath };
+}
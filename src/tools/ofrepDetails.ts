@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { OFREPResponse } from "./ofrepClient.js";
+import {
+  EvaluationFailureSchema,
+  FlagMetadataSchema,
+  FlagValueSchema,
+  flagValueType,
+  OFREP_ERROR_CODES,
+  type FlagValue,
+  type FlagValueType,
+} from "./ofrepSchemas.js";
+
+/**
+ * Error codes an OpenFeature SDK can report: the OFREP codes plus
+ * TYPE_MISMATCH, which the SDK raises itself.
+ */
+export const DetailsErrorCodeSchema = z.enum([
+  ...OFREP_ERROR_CODES,
+  "TYPE_MISMATCH",
+]);
+export type DetailsErrorCode = z.infer<typeof DetailsErrorCodeSchema>;
+
+/**
+ * The `EvaluationDetails` an OpenFeature SDK returns from
+ * `get<Type>Details(flagKey, defaultValue, context)`.
+ */
+export const EvaluationDetailsSchema = z.object({
+  flagKey: z.string(),
+  value: FlagValueSchema,
+  variant: z.string().optional(),
+  reason: z.string().optional(),
+  errorCode: DetailsErrorCodeSchema.optional(),
+  errorMessage: z.string().optional(),
+  flagMetadata: FlagMetadataSchema,
+});
+export type EvaluationDetails = z.infer<typeof EvaluationDetailsSchema>;
+
+function errorDetails(
+  flagKey: string,
+  defaultValue: FlagValue,
+  errorCode: DetailsErrorCode,
+  errorMessage: string | undefined,
+  flagMetadata: EvaluationDetails["flagMetadata"] = {}
+): EvaluationDetails {
+  return {
+    flagKey,
+    value: defaultValue,
+    reason: "ERROR",
+    errorCode,
+    ...(errorMessage ? { errorMessage } : {}),
+    flagMetadata,
+  };
+}
+
+/**
+ * Resolves a single flag OFREP response the way an OpenFeature SDK would for
+ * a typed evaluation: any error, or a value of the wrong type, yields the
+ * default value with reason ERROR and the matching error code.
+ */
+export function toEvaluationDetails(
+  flagKey: string,
+  type: FlagValueType,
+  defaultValue: FlagValue,
+  response: OFREPResponse
+): EvaluationDetails {
+  switch (response.kind) {
+    case "success": {
+      const data = response.data;
+      if (!data || !("key" in data)) {
+        return errorDetails(
+          flagKey,
+          defaultValue,
+          "PARSE_ERROR",
+          "The flag service returned an invalid evaluation response"
+        );
+      }
+      const flagMetadata = data.metadata ?? {};
+      const actual = flagValueType(data.value);
+      if (actual !== type) {
+        return errorDetails(
+          flagKey,
+          defaultValue,
+          "TYPE_MISMATCH",
+          `Flag value is of type ${actual ?? "null"}, expected ${type}`,
+          flagMetadata
+        );
+      }
+      return {
+        flagKey,
+        value: data.value,
+        ...(data.variant !== undefined ? { variant: data.variant } : {}),
+        ...(data.reason !== undefined ? { reason: data.reason } : {}),
+        flagMetadata,
+      };
+    }
+    case "http_error": {
+      const failure = EvaluationFailureSchema.safeParse({
+        key: flagKey,
+        ...(typeof response.error === "object" ? response.error : {}),
+      });
+      if (failure.success) {
+        return errorDetails(
+          flagKey,
+          defaultValue,
+          failure.data.errorCode,
+          failure.data.errorDetails,
+          failure.data.metadata
+        );
+      }
+      if (response.status === 404) {
+        return errorDetails(
+          flagKey,
+          defaultValue,
+          "FLAG_NOT_FOUND",
+          `Flag '${flagKey}' was not found`
+        );
+      }
+      return errorDetails(
+        flagKey,
+        defaultValue,
+        "GENERAL",
+        response.failure.message
+      );
+    }
+    case "error":
+      return errorDetails(
+        flagKey,
+        defaultValue,
+        "GENERAL",
+        response.failure.message
+      );
+    case "not_modified":
+      return errorDetails(
+        flagKey,
+        defaultValue,
+        "GENERAL",
+        "Unexpected 304 Not Modified for a single flag evaluation"
+      );
+  }
+}
@@ -0,0 +1,116 @@
+import type { BulkFlagEvaluation } from "./ofrepSchemas.js";
+
+export type FlagDiffField = "value" | "variant" | "reason" | "errorCode";
+
+export type FlagSnapshot = {
+  value?: unknown;
+  variant?: string;
+  reason?: string;
+  errorCode?: string;
+  errorDetails?: string;
+};
+
+export type ChangedFlag = {
+  key: string;
+  differences: FlagDiffField[];
+  left: FlagSnapshot;
+  right: FlagSnapshot;
+};
+
+export type BulkEvaluationDiff = {
+  summary: {
+    compared: number;
+    identical: number;
+    changed: number;
+    onlyInLeft: number;
+    onlyInRight: number;
+  };
+  onlyInLeft: string[];
+  onlyInRight: string[];
+  changed: ChangedFlag[];
+};
+
+/**
+ * JSON serialisation with sorted object keys, so structurally equal values compare equal.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+export function snapshot(flag: BulkFlagEvaluation): FlagSnapshot {
+  return "errorCode" in flag
+    ? { errorCode: flag.errorCode, errorDetails: flag.errorDetails }
+    : { value: flag.value, variant: flag.variant, reason: flag.reason };
+}
+
+/**
+ * Compares two bulk evaluation results flag by flag.
+ */
+export function diffBulkEvaluations(
+  left: BulkFlagEvaluation[],
+  right: BulkFlagEvaluation[]
+): BulkEvaluationDiff {
+  const leftByKey = new Map(left.map((flag) => [flag.key, flag]));
+  const rightByKey = new Map(right.map((flag) => [flag.key, flag]));
+
+  const onlyInLeft = [...leftByKey.keys()]
+    .filter((key) => !rightByKey.has(key))
+    .sort();
+  const onlyInRight = [...rightByKey.keys()]
+    .filter((key) => !leftByKey.has(key))
+    .sort();
+
+  const changed: ChangedFlag[] = [];
+  let identical = 0;
+  const sharedKeys = [...leftByKey.keys()]
+    .filter((key) => rightByKey.has(key))
+    .sort();
+
+  for (const key of sharedKeys) {
+    const l = snapshot(leftByKey.get(key) as BulkFlagEvaluation);
+    const r = snapshot(rightByKey.get(key) as BulkFlagEvaluation);
+    const differences: FlagDiffField[] = [];
+
+    if (stableStringify(l.value) !== stableStringify(r.value)) {
+      differences.push("value");
+    }
+    if (l.variant !== r.variant) {
+      differences.push("variant");
+    }
+    if (l.reason !== r.reason) {
+      differences.push("reason");
+    }
+    if (l.errorCode !== r.errorCode) {
+      differences.push("errorCode");
+    }
+
+    if (differences.length === 0) {
+      identical++;
+    } else {
+      changed.push({ key, differences, left: l, right: r });
+    }
+  }
+
+  return {
+    summary: {
+      compared: sharedKeys.length,
+      identical,
+      changed: changed.length,
+      onlyInLeft: onlyInLeft.length,
+      onlyInRight: onlyInRight.length,
+    },
+    onlyInLeft,
+    onlyInRight,
+    changed,
+  };
+}
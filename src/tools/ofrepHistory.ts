@@ -0,0 +1,379 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import { z } from "zod";
+import { stableStringify } from "./ofrepDiff.js";
+import {
+  ErrorCodeSchema,
+  FlagValueSchema,
+  type BulkFlagEvaluation,
+} from "./ofrepSchemas.js";
+import { logger, REDACTED } from "../logger.js";
+
+const DEFAULT_QUERY_LIMIT = 100;
+const HISTORY_KEY_BYTES = 32;
+
+export type HistoryContextMode = "redacted" | "full";
+
+const HistoryRecordSchema = z.object({
+  id: z.string(),
+  timestamp: z.string().datetime(),
+  environment: z.string().optional(),
+  baseUrl: z.string(),
+  flagKey: z.string(),
+  request: z.enum(["single", "bulk"]),
+  contextHash: z.string(),
+  targetingKeyHash: z.string().optional(),
+  /** The evaluation context, with attribute values redacted unless logging in full. */
+  context: z.record(z.string(), z.unknown()),
+  contextRedacted: z.boolean(),
+  value: FlagValueSchema.optional(),
+  variant: z.string().optional(),
+  reason: z.string().optional(),
+  errorCode: ErrorCodeSchema.optional(),
+  etag: z.string().optional(),
+});
+export type HistoryRecord = z.infer<typeof HistoryRecordSchema>;
+
+export type HistoryQuery = {
+  flagKey?: string;
+  environment?: string;
+  context?: Record<string, unknown>;
+  targetingKey?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+};
+
+export type FlagTransition = {
+  flagKey: string;
+  environment?: string;
+  contextHash: string;
+  timestamp: string;
+  from: { value?: unknown; variant?: string; errorCode?: string };
+  to: { value?: unknown; variant?: string; errorCode?: string };
+  recordId: string;
+};
+
+/**
+ * Returns the history log path, or undefined when history is disabled.
+ * OPENFEATURE_MCP_HISTORY_PATH names the file; OPENFEATURE_MCP_HISTORY=true
+ * uses `$XDG_STATE_HOME/openfeature-mcp/history.jsonl`.
+ */
+export function getHistoryPath(): string | undefined {
+  const explicitPath = process.env.OPENFEATURE_MCP_HISTORY_PATH;
+  if (explicitPath && explicitPath.length > 0) {
+    return explicitPath;
+  }
+  const enabled = process.env.OPENFEATURE_MCP_HISTORY;
+  if (enabled !== "true" && enabled !== "1") {
+    return undefined;
+  }
+  const stateHome =
+    process.env.XDG_STATE_HOME || join(homedir(), ".local", "state");
+  return join(stateHome, "openfeature-mcp", "history.jsonl");
+}
+
+function contextMode(): HistoryContextMode {
+  return process.env.OPENFEATURE_MCP_HISTORY_CONTEXT === "full"
+    ? "full"
+    : "redacted";
+}
+
+// Keys are cached per history path, as tests and long-running servers may
+// point OPENFEATURE_MCP_HISTORY_PATH at different files
+const historyKeys = new Map<string, Promise<Buffer>>();
+
+/**
+ * Reads the secret key stored beside the history log (`<path>.key`),
+ * creating it with owner-only permissions on first use.
+ */
+async function loadHistoryKey(path: string): Promise<Buffer> {
+  const keyPath = `${path}.key`;
+  try {
+    return await readFile(keyPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      throw err;
+    }
+  }
+  const key = randomBytes(HISTORY_KEY_BYTES);
+  await mkdir(dirname(keyPath), { recursive: true });
+  try {
+    await writeFile(keyPath, key, { mode: 0o600, flag: "wx" });
+    return key;
+  } catch (err) {
+    // another process created the key first
+    if ((err as NodeJS.ErrnoException)?.code === "EEXIST") {
+      return readFile(keyPath);
+    }
+    throw err;
+  }
+}
+
+function historyKey(path: string): Promise<Buffer> {
+  let key = historyKeys.get(path);
+  if (!key) {
+    key = loadHistoryKey(path);
+    historyKeys.set(path, key);
+    key.catch(() => historyKeys.delete(path));
+  }
+  return key;
+}
+
+/**
+ * Hashes contexts and targeting keys with an HMAC keyed per install, so
+ * hashes of guessable values such as emails cannot be reversed by
+ * brute force without the key file.
+ */
+function hash(key: Buffer, value: string): string {
+  return createHmac("sha256", key).update(value).digest("hex");
+}
+
+function hashTargetingKey(
+  key: Buffer,
+  targetingKey: unknown
+): string | undefined {
+  return typeof targetingKey === "string" ? hash(key, targetingKey) : undefined;
+}
+
+/**
+ * Hashes a context the way it is stored in the `contextHash` of the records
+ * in the history log.
+ */
+export async function hashContext(
+  context: Record<string, unknown>
+): Promise<string> {
+  const key = await historyKey(requireHistoryPath());
+  return hash(key, stableStringify(context));
+}
+
+function redact(context: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.keys(context).map((key) => [key, REDACTED]));
+}
+
+// Appends are chained so records from concurrent evaluations are written in
+// order and never interleave
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Appends one record per evaluated flag to the history log. Failures are
+ * logged and never fail the evaluation itself.
+ */
+export async function recordEvaluations(
+  target: { baseUrl: string; environment?: string },
+  request: "single" | "bulk",
+  context: Record<string, unknown>,
+  flags: BulkFlagEvaluation[],
+  etag?: string
+): Promise<void> {
+  const path = getHistoryPath();
+  if (!path || flags.length === 0) {
+    return;
+  }
+  let key: Buffer;
+  try {
+    key = await historyKey(path);
+  } catch (err) {
+    logger.warn(`Failed to read the OFREP evaluation history key for ${path}`, {
+      error: err,
+    });
+    return;
+  }
+  const full = contextMode() === "full";
+  const timestamp = new Date().toISOString();
+  const targetingKeyHash = hashTargetingKey(key, context.targetingKey);
+  const shared = {
+    timestamp,
+    ...(target.environment ? { environment: target.environment } : {}),
+    baseUrl: target.baseUrl,
+    request,
+    contextHash: hash(key, stableStringify(context)),
+    ...(targetingKeyHash ? { targetingKeyHash } : {}),
+    context: full ? context : redact(context),
+    contextRedacted: !full,
+    ...(etag ? { etag } : {}),
+  };
+  const lines = flags.map((flag) => {
+    const record: HistoryRecord = {
+      id: randomUUID(),
+      ...shared,
+      flagKey: flag.key,
+      ...("errorCode" in flag
+        ? { errorCode: flag.errorCode }
+        : { value: flag.value, variant: flag.variant, reason: flag.reason }),
+    };
+    return `${JSON.stringify(record)}\n`;
+  });
+
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, lines.join(""), { encoding: "utf-8" });
+    } catch (err) {
+      logger.warn(`Failed to write OFREP evaluation history to ${path}`, {
+        error: err,
+      });
+    }
+  });
+  await pendingWrite;
+}
+
+function requireHistoryPath(): string {
+  const path = getHistoryPath();
+  if (!path) {
+    throw new Error(
+      "Evaluation history is disabled. Set OPENFEATURE_MCP_HISTORY=true or OPENFEATURE_MCP_HISTORY_PATH to record evaluations."
+    );
+  }
+  return path;
+}
+
+/**
+ * Streams the history log, calling `visit` for every well-formed record.
+ * Lines that are not valid records are skipped.
+ */
+async function readHistory(
+  visit: (record: HistoryRecord) => void
+): Promise<void> {
+  const path = requireHistoryPath();
+  try {
+    await stat(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return;
+    }
+    throw err;
+  }
+
+  const stream = createReadStream(path, { encoding: "utf-8" });
+  try {
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let json: unknown;
+      try {
+        json = JSON.parse(line);
+      } catch {
+        // skip a partially written or corrupted line
+        continue;
+      }
+      const record = HistoryRecordSchema.safeParse(json);
+      if (record.success) {
+        visit(record.data);
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+type HashedQuery = HistoryQuery & {
+  contextHash?: string;
+  targetingKeyHash?: string;
+  sinceTime?: number;
+  untilTime?: number;
+};
+
+function matches(record: HistoryRecord, query: HashedQuery): boolean {
+  return (
+    (!query.flagKey || record.flagKey === query.flagKey) &&
+    (!query.environment || record.environment === query.environment) &&
+    (!query.contextHash || record.contextHash === query.contextHash) &&
+    (!query.targetingKeyHash ||
+      record.targetingKeyHash === query.targetingKeyHash) &&
+    (query.sinceTime === undefined ||
+      Date.parse(record.timestamp) >= query.sinceTime) &&
+    (query.untilTime === undefined ||
+      Date.parse(record.timestamp) <= query.untilTime)
+  );
+}
+
+function outcome(record: HistoryRecord): FlagTransition["from"] {
+  return record.errorCode
+    ? { errorCode: record.errorCode }
+    : { value: record.value, variant: record.variant };
+}
+
+/**
+ * Queries the history log. Returns the most recent matching records (oldest
+ * first) and the points where a flag's value, variant or error changed for
+ * the same environment and context.
+ */
+export async function queryHistory(query: HistoryQuery): Promise<{
+  historyPath: string;
+  matched: number;
+  records: HistoryRecord[];
+  transitions: FlagTransition[];
+}> {
+  const historyPath = requireHistoryPath();
+  const key = await historyKey(historyPath);
+  const hashed: HashedQuery = {
+    ...query,
+    contextHash: query.context && hash(key, stableStringify(query.context)),
+    targetingKeyHash: hashTargetingKey(key, query.targetingKey),
+    // Compared as times: timestamps with and without milliseconds do not
+    // sort correctly as strings
+    sinceTime: query.since ? Date.parse(query.since) : undefined,
+    untilTime: query.until ? Date.parse(query.until) : undefined,
+  };
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  const records: HistoryRecord[] = [];
+  const transitions: FlagTransition[] = [];
+  const last = new Map<string, HistoryRecord>();
+  let matched = 0;
+
+  await readHistory((record) => {
+    if (!matches(record, hashed)) {
+      return;
+    }
+    matched++;
+    records.push(record);
+
+    const series = [
+      record.flagKey,
+      record.environment ?? record.baseUrl,
+      record.contextHash,
+    ].join("|");
+    const previous = last.get(series);
+    const from = previous && outcome(previous);
+    const to = outcome(record);
+    if (from && stableStringify(from) !== stableStringify(to)) {
+      transitions.push({
+        flagKey: record.flagKey,
+        ...(record.environment ? { environment: record.environment } : {}),
+        contextHash: record.contextHash,
+        timestamp: record.timestamp,
+        from,
+        to,
+        recordId: record.id,
+      });
+    }
+    last.set(series, record);
+  });
+
+  return {
+    historyPath,
+    matched,
+    records: records.slice(-limit),
+    transitions: transitions.slice(-limit),
+  };
+}
+
+export async function getHistoryRecord(id: string): Promise<HistoryRecord> {
+  let found: HistoryRecord | undefined;
+  await readHistory((record) => {
+    if (record.id === id) {
+      found = record;
+    }
+  });
+  if (!found) {
+    throw new Error(`No evaluation with id '${id}' in the history log`);
+  }
+  return found;
+}
@@ -0,0 +1,145 @@
+import { snapshot, stableStringify, type FlagSnapshot } from "./ofrepDiff.js";
+import type { BulkFlagEvaluation } from "./ofrepSchemas.js";
+
+export const MAX_MATRIX_CONTEXTS = 500;
+
+type Context = Record<string, unknown>;
+
+export type MatrixRow = {
+  context: Context;
+  flags?: Record<string, FlagSnapshot>;
+  /** Set when the evaluation failed for this context. */
+  error?: string;
+};
+
+export type VariantShare = {
+  variant?: string;
+  value?: unknown;
+  errorCode?: string;
+  count: number;
+  /** Fraction of the evaluated contexts, between 0 and 1. */
+  share: number;
+};
+
+export type FlagShareSummary = {
+  key: string;
+  evaluated: number;
+  variants: VariantShare[];
+};
+
+export type EvaluationMatrix = {
+  summary: {
+    contexts: number;
+    failedContexts: number;
+    flags: FlagShareSummary[];
+  };
+  rows: MatrixRow[];
+};
+
+function tooManyContexts(): Error {
+  return new Error(
+    `The evaluation matrix is limited to ${MAX_MATRIX_CONTEXTS} contexts; reduce the contexts or variations.`
+  );
+}
+
+/**
+ * Expands attribute variations into contexts: every combination of the
+ * variation values is merged over each base context, e.g. two countries and
+ * three plans give six contexts per base context.
+ */
+export function expandContexts(
+  bases: Context[],
+  variations: Record<string, unknown[]> = {}
+): Context[] {
+  let contexts = bases;
+  for (const [attribute, values] of Object.entries(variations)) {
+    if (values.length === 0) {
+      continue;
+    }
+    if (contexts.length * values.length > MAX_MATRIX_CONTEXTS) {
+      throw tooManyContexts();
+    }
+    contexts = contexts.flatMap((context) =>
+      values.map((value) => ({ ...context, [attribute]: value }))
+    );
+  }
+  if (contexts.length > MAX_MATRIX_CONTEXTS) {
+    throw tooManyContexts();
+  }
+  return contexts;
+}
+
+function summarize(rows: MatrixRow[]): FlagShareSummary[] {
+  const byKey = new Map<string, Map<string, VariantShare>>();
+  for (const row of rows) {
+    for (const [key, flag] of Object.entries(row.flags ?? {})) {
+      const buckets = byKey.get(key) ?? new Map<string, VariantShare>();
+      byKey.set(key, buckets);
+      const bucketKey = flag.errorCode
+        ? `error:${flag.errorCode}`
+        : `${flag.variant ?? ""}:${stableStringify(flag.value)}`;
+      const bucket = buckets.get(bucketKey) ?? {
+        ...(flag.errorCode
+          ? { errorCode: flag.errorCode }
+          : {
+              ...(flag.variant !== undefined ? { variant: flag.variant } : {}),
+              value: flag.value,
+            }),
+        count: 0,
+        share: 0,
+      };
+      bucket.count++;
+      buckets.set(bucketKey, bucket);
+    }
+  }
+
+  return [...byKey.keys()].sort().map((key) => {
+    const variants = [
+      ...(byKey.get(key) as Map<string, VariantShare>).values(),
+    ];
+    const evaluated = variants.reduce((sum, bucket) => sum + bucket.count, 0);
+    for (const bucket of variants) {
+      bucket.share = Math.round((bucket.count / evaluated) * 10000) / 10000;
+    }
+    variants.sort((a, b) => b.count - a.count);
+    return { key, evaluated, variants };
+  });
+}
+
+/**
+ * Evaluates every context with at most `concurrency` evaluations in flight.
+ * A failed evaluation is reported on its row instead of failing the matrix.
+ */
+export async function evaluateMatrix(
+  contexts: Context[],
+  evaluate: (context: Context) => Promise<BulkFlagEvaluation[]>,
+  concurrency: number
+): Promise<EvaluationMatrix> {
+  const rows: MatrixRow[] = contexts.map((context) => ({ context }));
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < contexts.length) {
+      const row = rows[next++];
+      try {
+        const flags = await evaluate(row.context);
+        row.flags = Object.fromEntries(
+          flags.map((flag) => [flag.key, snapshot(flag)])
+        );
+      } catch (error) {
+        row.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, contexts.length) }, worker)
+  );
+
+  return {
+    summary: {
+      contexts: rows.length,
+      failedContexts: rows.filter((row) => row.error !== undefined).length,
+      flags: summarize(rows),
+    },
+    rows,
+  };
+}
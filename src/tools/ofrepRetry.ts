@@ -0,0 +1,161 @@
+import { logger } from "../logger.js";
+
+export const RETRYABLE_STATUSES: readonly number[] = [429, 502, 503, 504];
+
+export type RetryOptions = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+};
+
+export type FailureReason =
+  | "rate_limited"
+  | "server_unavailable"
+  | "http_error"
+  | "timeout"
+  | "network_error"
+  | "invalid_response";
+
+/**
+ * Result of `fetchWithRetry`. A response is returned even when its status is
+ * retryable and the retries ran out, so callers can still use its body.
+ * `body` is already read, within the same timeout as the request.
+ */
+export type RetryOutcome =
+  | {
+      ok: true;
+      response: Response;
+      body: string;
+      attempts: number;
+      retryAfterMs?: number;
+    }
+  | {
+      ok: false;
+      reason: "timeout" | "network_error";
+      message: string;
+      attempts: number;
+    };
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const parsed = raw !== undefined && raw !== "" ? Number(raw) : NaN;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxRetries: envInt("OPENFEATURE_OFREP_MAX_RETRIES", 2),
+    baseDelayMs: envInt("OPENFEATURE_OFREP_RETRY_BASE_DELAY_MS", 250),
+    maxDelayMs: envInt("OPENFEATURE_OFREP_RETRY_MAX_DELAY_MS", 30_000),
+    timeoutMs: envInt("OPENFEATURE_OFREP_TIMEOUT_MS", 10_000),
+  };
+}
+
+/**
+ * Parses a `Retry-After` header given either as delay-seconds or as an
+ * HTTP-date. Returns the delay in milliseconds, or undefined if absent/invalid.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`.
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches `url` and reads its body, retrying network errors, timeouts and
+ * 429/502/503/504 responses. The timeout covers the body as well as the
+ * headers, so a service that stalls mid-body cannot block the tool call.
+ * `Retry-After` is honoured when present; a `Retry-After` longer than
+ * `maxDelayMs` ends the retries instead of blocking the tool call.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = getRetryOptions()
+): Promise<RetryOutcome> {
+  const maxAttempts = options.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+
+    let delayMs: number;
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      if (!RETRYABLE_STATUSES.includes(response.status)) {
+        const body = await response.text();
+        return { ok: true, response, body, attempts: attempt };
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      if (
+        attempt >= maxAttempts ||
+        (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs)
+      ) {
+        const body = await response.text();
+        return { ok: true, response, body, attempts: attempt, retryAfterMs };
+      }
+      // Discard the body so the connection can be reused
+      await response.body?.cancel().catch(() => undefined);
+      delayMs = retryAfterMs ?? backoffDelay(attempt, options);
+      logger.warn(
+        `OFREP API returned ${response.status}, retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`
+      );
+    } catch (err) {
+      const timedOut = controller.signal.aborted;
+      const message = timedOut
+        ? `Request timed out after ${options.timeoutMs}ms`
+        : err instanceof Error
+        ? err.message
+        : String(err);
+      if (attempt >= maxAttempts) {
+        return {
+          ok: false,
+          reason: timedOut ? "timeout" : "network_error",
+          message,
+          attempts: attempt,
+        };
+      }
+      delayMs = backoffDelay(attempt, options);
+      logger.warn(
+        `OFREP API request failed (${message}), retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,225 @@
+import { z } from "zod";
+
+/**
+ * Zod schemas for OFREP response bodies, following the OFREP OpenAPI spec:
+ * https://github.com/open-feature/protocol/blob/main/service/openapi.yaml
+ */
+
+export const OFREP_ERROR_CODES = [
+  "PARSE_ERROR",
+  "TARGETING_KEY_MISSING",
+  "INVALID_CONTEXT",
+  "GENERAL",
+  "FLAG_NOT_FOUND",
+] as const;
+
+export const ErrorCodeSchema = z.enum(OFREP_ERROR_CODES);
+export type OFREPErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+export const FlagValueSchema = z.union([
+  z.boolean(),
+  z.string(),
+  z.number(),
+  z.record(z.string(), z.unknown()),
+  z.array(z.unknown()),
+]);
+export type FlagValue = z.infer<typeof FlagValueSchema>;
+
+export const FLAG_VALUE_TYPES = [
+  "boolean",
+  "string",
+  "number",
+  "object",
+] as const;
+export type FlagValueType = (typeof FLAG_VALUE_TYPES)[number];
+
+/**
+ * The OpenFeature type of a flag value: arrays and records are `object`
+ * values. Returns undefined for anything that is not a flag value.
+ */
+export function flagValueType(value: unknown): FlagValueType | undefined {
+  switch (typeof value) {
+    case "boolean":
+    case "string":
+    case "number":
+      return typeof value as FlagValueType;
+    case "object":
+      return value === null ? undefined : "object";
+    default:
+      return undefined;
+  }
+}
+
+export const FlagMetadataSchema = z.record(
+  z.string(),
+  z.union([z.boolean(), z.string(), z.number()])
+);
+
+export const EvaluationSuccessSchema = z.object({
+  key: z.string().min(1),
+  value: FlagValueSchema,
+  reason: z.string().optional(),
+  variant: z.string().optional(),
+  metadata: FlagMetadataSchema.optional(),
+});
+export type EvaluationSuccess = z.infer<typeof EvaluationSuccessSchema>;
+
+export const EvaluationFailureSchema = z.object({
+  key: z.string().min(1),
+  errorCode: ErrorCodeSchema,
+  errorDetails: z.string().optional(),
+  metadata: FlagMetadataSchema.optional(),
+});
+export type EvaluationFailure = z.infer<typeof EvaluationFailureSchema>;
+
+export const BulkFlagEvaluationSchema = z.union([
+  EvaluationSuccessSchema,
+  EvaluationFailureSchema,
+]);
+export type BulkFlagEvaluation = z.infer<typeof BulkFlagEvaluationSchema>;
+
+export const BulkEvaluationSuccessSchema = z.object({
+  flags: z.array(BulkFlagEvaluationSchema),
+  metadata: FlagMetadataSchema.optional(),
+});
+export type BulkEvaluationSuccess = z.infer<typeof BulkEvaluationSuccessSchema>;
+
+export const BulkEvaluationFailureSchema = z.object({
+  errorCode: ErrorCodeSchema,
+  errorDetails: z.string().optional(),
+});
+
+export const GeneralErrorSchema = z.object({
+  errorDetails: z.string().optional(),
+});
+
+/**
+ * A spec violation found while validating a flag service response.
+ */
+export const OFREPDiagnosticSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+export type OFREPDiagnostic = z.infer<typeof OFREPDiagnosticSchema>;
+
+function toDiagnostics(
+  error: z.ZodError,
+  prefix: (string | number)[] = []
+): OFREPDiagnostic[] {
+  return error.issues.map((issue) => {
+    const path = [...prefix, ...issue.path]
+      .map((segment, index) =>
+        typeof segment === "number"
+          ? `[${segment}]`
+          : index === 0
+          ? segment
+          : `.${segment}`
+      )
+      .join("");
+    return { path: path || "(root)", message: issue.message };
+  });
+}
+
+function parseBulkFlag(
+  flag: unknown,
+  index: number
+): { flag?: BulkFlagEvaluation; diagnostics: OFREPDiagnostic[] } {
+  const hasErrorCode =
+    typeof flag === "object" && flag !== null && "errorCode" in flag;
+  const result = hasErrorCode
+    ? EvaluationFailureSchema.safeParse(flag)
+    : EvaluationSuccessSchema.safeParse(flag);
+  return result.success
+    ? { flag: result.data, diagnostics: [] }
+    : { diagnostics: toDiagnostics(result.error, ["flags", index]) };
+}
+
+/**
+ * Validates a single flag evaluation response body.
+ */
+export function parseEvaluationSuccess(body: unknown): {
+  data?: EvaluationSuccess;
+  diagnostics: OFREPDiagnostic[];
+} {
+  const result = EvaluationSuccessSchema.safeParse(body);
+  return result.success
+    ? { data: result.data, diagnostics: [] }
+    : { diagnostics: toDiagnostics(result.error) };
+}
+
+/**
+ * Validates a bulk evaluation response body. Flags that violate the spec are
+ * dropped from `data` and reported individually, so one malformed flag does
+ * not hide the rest of the flag set.
+ */
+export function parseBulkEvaluationSuccess(body: unknown): {
+  data?: BulkEvaluationSuccess;
+  diagnostics: OFREPDiagnostic[];
+} {
+  const flags = (body as { flags?: unknown } | null)?.flags;
+  if (!Array.isArray(flags)) {
+    return {
+      diagnostics: [
+        { path: "flags", message: "Expected an array of flag evaluations" },
+      ],
+    };
+  }
+
+  const diagnostics: OFREPDiagnostic[] = [];
+  const validFlags: BulkFlagEvaluation[] = [];
+  flags.forEach((rawFlag, index) => {
+    const { flag, diagnostics: flagDiagnostics } = parseBulkFlag(
+      rawFlag,
+      index
+    );
+    diagnostics.push(...flagDiagnostics);
+    if (flag) {
+      validFlags.push(flag);
+    }
+  });
+
+  const rawMetadata = (body as { metadata?: unknown }).metadata;
+  let metadata: BulkEvaluationSuccess["metadata"];
+  if (rawMetadata !== undefined) {
+    const result = FlagMetadataSchema.safeParse(rawMetadata);
+    if (result.success) {
+      metadata = result.data;
+    } else {
+      diagnostics.push(...toDiagnostics(result.error, ["metadata"]));
+    }
+  }
+
+  return {
+    data: { flags: validFlags, ...(metadata ? { metadata } : {}) },
+    diagnostics,
+  };
+}
+
+/**
+ * Validates an OFREP error body against the shape the spec defines for the
+ * given status. Statuses without a defined body (e.g. 401/403/429) are not checked.
+ */
+export function validateErrorBody(
+  status: number,
+  body: unknown,
+  isSingleFlagEval: boolean
+): OFREPDiagnostic[] {
+  let schema: z.ZodTypeAny | undefined;
+  if (status === 400) {
+    schema = isSingleFlagEval
+      ? EvaluationFailureSchema
+      : BulkEvaluationFailureSchema;
+  } else if (status === 404 && isSingleFlagEval) {
+    schema = EvaluationFailureSchema.extend({
+      errorCode: z.literal("FLAG_NOT_FOUND"),
+    });
+  } else if (status === 500) {
+    schema = GeneralErrorSchema;
+  }
+
+  if (!schema) {
+    return [];
+  }
+  const result = schema.safeParse(body);
+  return result.success ? [] : toDiagnostics(result.error);
+}
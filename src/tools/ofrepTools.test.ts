@@ -1,7 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { registerOFREPTools } from "./ofrepTools.js";
+import { clearBulkCache } from "./ofrepCache.js";
+import type { EvaluationMatrix } from "./ofrepMatrix.js";
 import type { RegisterToolWithErrorHandling } from "../server.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  appendFile,
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -39,8 +52,9 @@ describe("ofrepTools", () => {
     registerOFREPTools(mockRegisterTool);
     toolHandler = tools.get("ofrep_flag_eval").handler;
 
-    // Clear fetch mock
+    // Clear fetch mock and cached bulk evaluations
     mockFetch.mockClear();
+    clearBulkCache();
 
     // Clear environment variables
     delete process.env.OPENFEATURE_OFREP_BASE_URL;
@@ -49,6 +63,16 @@ describe("ofrepTools", () => {
     delete process.env.OFREP_BEARER_TOKEN;
     delete process.env.OPENFEATURE_OFREP_API_KEY;
     delete process.env.OFREP_API_KEY;
+    delete process.env.OPENFEATURE_OFREP_ENVIRONMENT;
+    delete process.env.OPENFEATURE_MCP_CONFIG_PATH;
+    delete process.env.OPENFEATURE_MCP_HISTORY;
+    delete process.env.OPENFEATURE_MCP_HISTORY_PATH;
+    delete process.env.OPENFEATURE_MCP_HISTORY_CONTEXT;
+
+    // Keep retry backoff short so retrying tests stay fast
+    process.env.OPENFEATURE_OFREP_RETRY_BASE_DELAY_MS = "1";
+    delete process.env.OPENFEATURE_OFREP_MAX_RETRIES;
+    delete process.env.OPENFEATURE_OFREP_TIMEOUT_MS;
   });
 
   afterEach(() => {
@@ -116,6 +140,7 @@ describe("ofrepTools", () => {
             authorization: "Bearer test-token",
           },
           body: JSON.stringify({ context: { targetingKey: "user-123" } }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -255,4 +280,1177 @@ describe("ofrepTools", () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
   });
+
+  describe("Named Environments", () => {
+    let configDir: string;
+
+    beforeEach(async () => {
+      configDir = await mkdtemp(join(tmpdir(), "openfeature-mcp-"));
+      const configPath = join(configDir, "config.json");
+      await writeFile(
+        configPath,
+        JSON.stringify({
+          OFREP: {
+            defaultEnvironment: "staging",
+            environments: {
+              staging: {
+                baseUrl: "https://staging.example.com",
+                bearerToken: "staging-token",
+                context: { region: "eu" },
+              },
+              prod: {
+                baseUrl: "https://prod.example.com",
+                apiKey: "prod-key",
+              },
+            },
+          },
+        })
+      );
+      process.env.OPENFEATURE_MCP_CONFIG_PATH = configPath;
+
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify({ value: true }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await rm(configDir, { recursive: true, force: true });
+    });
+
+    it("should use the default environment and merge its context", async () => {
+      await toolHandler({
+        flag_key: "test-flag",
+        context: { targetingKey: "user-1" },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://staging.example.com/ofrep/v1/evaluate/flags/test-flag",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            authorization: "Bearer staging-token",
+          }),
+          body: JSON.stringify({
+            context: { region: "eu", targetingKey: "user-1" },
+          }),
+        })
+      );
+    });
+
+    it("should select a named environment over env vars", async () => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://env.example.com";
+
+      await toolHandler({ flag_key: "test-flag", environment: "prod" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://prod.example.com/ofrep/v1/evaluate/flags/test-flag",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "X-API-Key": "prod-key" }),
+        })
+      );
+    });
+
+    it("should reject unknown environments", async () => {
+      await expect(
+        toolHandler({ flag_key: "test-flag", environment: "qa" })
+      ).rejects.toThrow(/Available environments: staging, prod/);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should not resolve environments from the object prototype", async () => {
+      await expect(
+        toolHandler({ flag_key: "test-flag", environment: "constructor" })
+      ).rejects.toThrow("OFREP environment 'constructor' is not configured");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should list environments with credentials redacted", async () => {
+      const result = await tools.get("ofrep_list_environments").handler({});
+      const text = result.content[0].text as string;
+      const response = JSON.parse(text);
+
+      expect(response.defaultEnvironment).toBe("staging");
+      expect(response.environments).toEqual([
+        {
+          name: "staging",
+          baseUrl: "https://staging.example.com",
+          bearerToken: "[REDACTED]",
+          context: { region: "eu" },
+        },
+        {
+          name: "prod",
+          baseUrl: "https://prod.example.com",
+          apiKey: "[REDACTED]",
+        },
+      ]);
+      expect(text).not.toContain("staging-token");
+      expect(text).not.toContain("prod-key");
+    });
+  });
+
+  describe("Context Presets", () => {
+    let configDir: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+      configDir = await mkdtemp(join(tmpdir(), "openfeature-mcp-"));
+      configPath = join(configDir, "config.json");
+      await writeFile(
+        configPath,
+        JSON.stringify({
+          OFREP: {
+            baseUrl: "https://api.example.com",
+            apiKey: "key",
+            context: { region: "eu", plan: "free" },
+          },
+          contextPresets: {
+            "internal-qa-user": { targetingKey: "qa-1", plan: "enterprise" },
+          },
+          other: { keep: true },
+        })
+      );
+      process.env.OPENFEATURE_MCP_CONFIG_PATH = configPath;
+
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify({ value: true }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await rm(configDir, { recursive: true, force: true });
+    });
+
+    it("should merge the preset between the default and explicit context", async () => {
+      await toolHandler({
+        flag_key: "my-flag",
+        context_preset: "internal-qa-user",
+        context: { targetingKey: "qa-2" },
+      });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({
+        context: { region: "eu", plan: "enterprise", targetingKey: "qa-2" },
+      });
+    });
+
+    it("should reject unknown presets", async () => {
+      await expect(
+        toolHandler({ flag_key: "my-flag", context_preset: "nope" })
+      ).rejects.toThrow(
+        "Context preset 'nope' is not defined in " +
+          configPath +
+          ". Available presets: internal-qa-user"
+      );
+    });
+
+    it("should save, list and delete presets and keep other settings", async () => {
+      const saved = await tools.get("ofrep_save_context_preset").handler({
+        name: "eu-free-tier",
+        context: { country: "DE", plan: "free" },
+      });
+      expect(JSON.parse(saved.content[0].text as string)).toEqual({
+        name: "eu-free-tier",
+        configPath,
+        replaced: false,
+      });
+
+      const listed = await tools.get("ofrep_list_context_presets").handler({});
+      expect(
+        Object.keys(JSON.parse(listed.content[0].text as string).presets)
+      ).toEqual(["internal-qa-user", "eu-free-tier"]);
+
+      await tools
+        .get("ofrep_delete_context_preset")
+        .handler({ name: "internal-qa-user" });
+      const file = JSON.parse(await readFile(configPath, "utf-8"));
+      expect(file.contextPresets).toEqual({
+        "eu-free-tier": { country: "DE", plan: "free" },
+      });
+      expect(file.other).toEqual({ keep: true });
+      expect(file.OFREP.baseUrl).toBe("https://api.example.com");
+
+      await expect(
+        tools
+          .get("ofrep_delete_context_preset")
+          .handler({ name: "internal-qa-user" })
+      ).rejects.toThrow("Context preset 'internal-qa-user' is not defined");
+    });
+
+    it("should drop only an invalid preset", async () => {
+      await writeFile(
+        configPath,
+        JSON.stringify({
+          OFREP: { baseUrl: "https://api.example.com", apiKey: "key" },
+          contextPresets: {
+            "bad name!": { plan: "pro" },
+            "internal-qa-user": { targetingKey: "qa-1" },
+          },
+        })
+      );
+
+      const listed = await tools.get("ofrep_list_context_presets").handler({});
+      expect(JSON.parse(listed.content[0].text as string).presets).toEqual({
+        "internal-qa-user": { targetingKey: "qa-1" },
+      });
+
+      const result = await toolHandler({ flag_key: "my-flag" });
+      expect(result.isError).toBeFalsy();
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "https://api.example.com/ofrep/v1/evaluate/flags/my-flag"
+      );
+
+      await tools.get("ofrep_save_context_preset").handler({
+        name: "eu",
+        context: { country: "DE" },
+      });
+      const file = JSON.parse(await readFile(configPath, "utf-8"));
+      expect(Object.keys(file.contextPresets)).toEqual([
+        "bad name!",
+        "internal-qa-user",
+        "eu",
+      ]);
+    });
+
+    it("should keep every preset saved concurrently", async () => {
+      const names = ["a", "b", "c", "d", "e"];
+      await Promise.all(
+        names.map((name) =>
+          tools.get("ofrep_save_context_preset").handler({
+            name,
+            context: { targetingKey: name },
+          })
+        )
+      );
+
+      const file = JSON.parse(await readFile(configPath, "utf-8"));
+      expect(Object.keys(file.contextPresets).sort()).toEqual([
+        "a",
+        "b",
+        "c",
+        "d",
+        "e",
+        "internal-qa-user",
+      ]);
+    });
+
+    it("should not overwrite a config file that is not valid JSON", async () => {
+      await writeFile(configPath, "{ not json");
+
+      await expect(
+        tools.get("ofrep_save_context_preset").handler({
+          name: "eu-free-tier",
+          context: { country: "DE" },
+        })
+      ).rejects.toThrow("Cannot update the OpenFeature MCP config file");
+      expect(await readFile(configPath, "utf-8")).toBe("{ not json");
+    });
+
+    it("should not overwrite a config file that is not a JSON object", async () => {
+      await writeFile(configPath, "null");
+
+      await expect(
+        tools.get("ofrep_save_context_preset").handler({
+          name: "eu-free-tier",
+          context: { country: "DE" },
+        })
+      ).rejects.toThrow("Cannot update the OpenFeature MCP config file");
+      expect(await readFile(configPath, "utf-8")).toBe("null");
+    });
+
+    it("should not treat prototype properties as presets", async () => {
+      await expect(
+        toolHandler({ flag_key: "my-flag", context_preset: "toString" })
+      ).rejects.toThrow("Context preset 'toString' is not defined");
+      await expect(
+        tools.get("ofrep_delete_context_preset").handler({ name: "toString" })
+      ).rejects.toThrow("Context preset 'toString' is not defined");
+
+      const saved = await tools.get("ofrep_save_context_preset").handler({
+        name: "constructor",
+        context: { plan: "pro" },
+      });
+      expect(JSON.parse(saved.content[0].text as string)).toMatchObject({
+        replaced: false,
+      });
+    });
+  });
+
+  describe("Flag Diff", () => {
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BEARER_TOKEN = "test-token";
+      mockFetch.mockImplementation(async (url: string) => {
+        const flags = url.startsWith("https://staging.example.com")
+          ? [
+              { key: "same", value: true, reason: "STATIC", variant: "on" },
+              {
+                key: "rollout",
+                value: true,
+                reason: "TARGETING_MATCH",
+                variant: "on",
+              },
+              { key: "staging-only", value: "x", reason: "STATIC" },
+              { key: "broken", errorCode: "PARSE_ERROR" },
+            ]
+          : [
+              { key: "same", value: true, reason: "STATIC", variant: "on" },
+              { key: "rollout", value: false, reason: "SPLIT", variant: "off" },
+              { key: "prod-only", value: 1, reason: "DEFAULT" },
+              { key: "broken", value: false, reason: "DEFAULT" },
+            ];
+        return new Response(JSON.stringify({ flags }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        });
+      });
+    });
+
+    it("should report missing flags and field differences", async () => {
+      const result = await tools.get("ofrep_flag_diff").handler({
+        left: { label: "staging", base_url: "https://staging.example.com" },
+        right: { label: "prod", base_url: "https://prod.example.com" },
+        context: { targetingKey: "user-1" },
+      });
+      const diff = JSON.parse(result.content[0].text as string);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(diff.left).toEqual({
+        label: "staging",
+        baseUrl: "https://staging.example.com",
+        flagCount: 4,
+      });
+      expect(diff.summary).toEqual({
+        compared: 3,
+        identical: 1,
+        changed: 2,
+        onlyInLeft: 1,
+        onlyInRight: 1,
+      });
+      expect(diff.onlyInLeft).toEqual(["staging-only"]);
+      expect(diff.onlyInRight).toEqual(["prod-only"]);
+      expect(diff.changed).toEqual([
+        {
+          key: "broken",
+          differences: ["value", "reason", "errorCode"],
+          left: { errorCode: "PARSE_ERROR" },
+          right: { value: false, reason: "DEFAULT" },
+        },
+        {
+          key: "rollout",
+          differences: ["value", "variant", "reason"],
+          left: { value: true, variant: "on", reason: "TARGETING_MATCH" },
+          right: { value: false, variant: "off", reason: "SPLIT" },
+        },
+      ]);
+    });
+
+    it("should compare two contexts against the same service", async () => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://prod.example.com";
+
+      await tools.get("ofrep_flag_diff").handler({
+        left: { context: { targetingKey: "user-a" } },
+        right: { context: { targetingKey: "user-b" } },
+        context: { plan: "free" },
+      });
+
+      const bodies = mockFetch.mock.calls.map(([, init]) =>
+        JSON.parse(init.body)
+      );
+      expect(bodies).toEqual([
+        { context: { plan: "free", targetingKey: "user-a" } },
+        { context: { plan: "free", targetingKey: "user-b" } },
+      ]);
+    });
+
+    it("should fail when one side cannot be evaluated", async () => {
+      mockFetch.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ error: "Unauthorized" }), {
+            status: 401,
+            headers: { "content-type": "application/json" },
+          })
+      );
+
+      await expect(
+        tools.get("ofrep_flag_diff").handler({
+          left: { label: "staging", base_url: "https://staging.example.com" },
+          right: { label: "prod", base_url: "https://prod.example.com" },
+        })
+      ).rejects.toThrow(
+        /Bulk evaluation failed for 'staging' \(status 401.*\n.*'prod' \(status 401/
+      );
+    });
+  });
+
+  describe("Response Validation", () => {
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://flags.example.com";
+      process.env.OPENFEATURE_OFREP_BEARER_TOKEN = "test-token";
+    });
+
+    it("should return validated single evaluation as structured content", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            key: "my-feature",
+            value: "blue",
+            reason: "TARGETING_MATCH",
+            variant: "b",
+            metadata: { owner: "team-a" },
+          }),
+          { status: 200, headers: { "content-type": "application/json" } }
+        )
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(result.structuredContent).toEqual({
+        status: 200,
+        data: {
+          key: "my-feature",
+          value: "blue",
+          reason: "TARGETING_MATCH",
+          variant: "b",
+          metadata: { owner: "team-a" },
+        },
+      });
+      expect(JSON.parse(result.content[0].text as string)).toEqual(
+        result.structuredContent
+      );
+    });
+
+    it("should report spec violations in bulk responses as diagnostics", async () => {
+      const body = {
+        flags: [
+          { key: "good", value: true, reason: "STATIC" },
+          { key: "missing-value", reason: "STATIC" },
+          { key: "bad-code", errorCode: "OOPS" },
+          { key: "failed", errorCode: "PARSE_ERROR", errorDetails: "bad rule" },
+        ],
+      };
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify(body), {
+          status: 200,
+          headers: { "content-type": "application/json", etag: "v1" },
+        })
+      );
+
+      const result = await toolHandler({});
+      const output = result.structuredContent as Record<string, any>;
+
+      expect(output.etag).toBe("v1");
+      expect(output.data.flags).toEqual([
+        { key: "good", value: true, reason: "STATIC" },
+        { key: "failed", errorCode: "PARSE_ERROR", errorDetails: "bad rule" },
+      ]);
+      expect(output.diagnostics.map((d: { path: string }) => d.path)).toEqual([
+        "flags[1].value",
+        "flags[2].errorCode",
+      ]);
+      expect(output.raw).toEqual(body);
+    });
+
+    it("should report error bodies that do not match the spec", async () => {
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify({ message: "nope" }), {
+          status: 400,
+          headers: { "content-type": "application/json" },
+        })
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+      const output = result.structuredContent as Record<string, any>;
+
+      expect(output.status).toBe(400);
+      expect(output.error).toEqual({ message: "nope" });
+      expect(output.diagnostics.map((d: { path: string }) => d.path)).toEqual([
+        "key",
+        "errorCode",
+      ]);
+    });
+  });
+
+  describe("Bulk Evaluation Cache", () => {
+    const flags = [{ key: "new-checkout", value: true, reason: "STATIC" }];
+
+    function bulkResponse(headers: Record<string, string>) {
+      return new Response(JSON.stringify({ flags }), {
+        status: 200,
+        headers: { "content-type": "application/json", ...headers },
+      });
+    }
+
+    function sentHeaders(call: number): Record<string, string> {
+      return mockFetch.mock.calls[call][1].headers;
+    }
+
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://flags.example.com";
+      process.env.OPENFEATURE_OFREP_BEARER_TOKEN = "test-token";
+    });
+
+    it("should revalidate with If-None-Match and serve cached flags on 304", async () => {
+      mockFetch
+        .mockResolvedValueOnce(bulkResponse({ etag: '"v1"' }))
+        .mockResolvedValueOnce(
+          new Response(null, { status: 304, headers: { etag: '"v1"' } })
+        );
+
+      const first = await toolHandler({ context: { targetingKey: "u1" } });
+      const second = await toolHandler({ context: { targetingKey: "u1" } });
+
+      expect(first.structuredContent).toMatchObject({
+        status: 200,
+        cache: "miss",
+        data: { flags },
+      });
+      expect(sentHeaders(0)["If-None-Match"]).toBeUndefined();
+      expect(sentHeaders(1)["If-None-Match"]).toBe('"v1"');
+      expect(second.structuredContent).toMatchObject({
+        status: 304,
+        etag: '"v1"',
+        cache: "revalidated",
+        data: { flags },
+      });
+    });
+
+    it("should serve fresh entries without a request when max-age allows", async () => {
+      mockFetch.mockResolvedValueOnce(
+        bulkResponse({ "cache-control": "max-age=60" })
+      );
+
+      await toolHandler({ context: { targetingKey: "u1", plan: "pro" } });
+      const second = await toolHandler({
+        context: { plan: "pro", targetingKey: "u1" },
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(second.structuredContent).toMatchObject({
+        cache: "hit",
+        data: { flags },
+      });
+    });
+
+    it("should not cache responses marked no-store", async () => {
+      mockFetch.mockImplementation(async () =>
+        bulkResponse({ etag: '"v1"', "cache-control": "no-store" })
+      );
+
+      await toolHandler({ context: { targetingKey: "u1" } });
+      await toolHandler({ context: { targetingKey: "u1" } });
+
+      expect(sentHeaders(1)["If-None-Match"]).toBeUndefined();
+    });
+
+    it("should bypass the cache when requested", async () => {
+      mockFetch.mockImplementation(async () =>
+        bulkResponse({ etag: '"v1"', "cache-control": "max-age=60" })
+      );
+
+      await toolHandler({ context: { targetingKey: "u1" } });
+      const second = await toolHandler({
+        context: { targetingKey: "u1" },
+        bypass_cache: true,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(sentHeaders(1)["If-None-Match"]).toBeUndefined();
+      expect(second.structuredContent).toMatchObject({ cache: "bypass" });
+    });
+
+    it("should keep separate entries per credentials and context", async () => {
+      mockFetch.mockImplementation(async () => bulkResponse({ etag: '"v1"' }));
+
+      await toolHandler({ context: { targetingKey: "u1" } });
+      await toolHandler({ context: { targetingKey: "u2" } });
+      await toolHandler({
+        context: { targetingKey: "u1" },
+        auth: { bearer_token: "other-token" },
+      });
+
+      expect(sentHeaders(1)["If-None-Match"]).toBeUndefined();
+      expect(sentHeaders(2)["If-None-Match"]).toBeUndefined();
+    });
+  });
+
+  describe("Retries", () => {
+    function jsonResponse(
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) {
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json", ...headers },
+      });
+    }
+
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://flags.example.com";
+      process.env.OPENFEATURE_OFREP_BEARER_TOKEN = "test-token";
+    });
+
+    it("should retry 503 responses and succeed", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(503, {}))
+        .mockResolvedValueOnce(
+          jsonResponse(200, { key: "my-feature", value: true })
+        );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.structuredContent).toMatchObject({
+        status: 200,
+        data: { key: "my-feature", value: true },
+      });
+    });
+
+    it("should honour Retry-After in seconds on 429", async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(429, {}, { "retry-after": "0" }))
+        .mockResolvedValueOnce(
+          jsonResponse(200, { key: "my-feature", value: true })
+        );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.structuredContent).toMatchObject({ status: 200 });
+    });
+
+    it("should give up when Retry-After exceeds the maximum delay", async () => {
+      const retryAt = new Date(Date.now() + 120_000).toUTCString();
+      mockFetch.mockResolvedValue(
+        jsonResponse(429, {}, { "retry-after": retryAt })
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.structuredContent).toMatchObject({
+        status: 429,
+        failure: { reason: "rate_limited", attempts: 1 },
+      });
+      const { failure } = result.structuredContent as {
+        failure: { retryAfterSeconds: number };
+      };
+      expect(failure.retryAfterSeconds).toBeGreaterThan(100);
+    });
+
+    it("should report attempts when retries are exhausted", async () => {
+      process.env.OPENFEATURE_OFREP_MAX_RETRIES = "3";
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(result.structuredContent).toEqual({
+        error: "fetch failed",
+        failure: {
+          reason: "network_error",
+          message: "fetch failed after 4 attempts",
+          attempts: 4,
+        },
+      });
+    });
+
+    it("should not retry client errors", async () => {
+      mockFetch.mockResolvedValue(
+        jsonResponse(400, { key: "my-feature", errorCode: "PARSE_ERROR" })
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.structuredContent).toMatchObject({
+        failure: { reason: "http_error", attempts: 1 },
+      });
+    });
+
+    it("should time out slow requests", async () => {
+      process.env.OPENFEATURE_OFREP_TIMEOUT_MS = "20";
+      process.env.OPENFEATURE_OFREP_MAX_RETRIES = "0";
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError"))
+            );
+          })
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(result.structuredContent).toMatchObject({
+        failure: {
+          reason: "timeout",
+          message: "Request timed out after 20ms",
+          attempts: 1,
+        },
+      });
+    });
+    it("should time out responses that stall mid-body", async () => {
+      process.env.OPENFEATURE_OFREP_TIMEOUT_MS = "20";
+      process.env.OPENFEATURE_OFREP_MAX_RETRIES = "0";
+      mockFetch.mockImplementation(
+        async (_url: string, init: RequestInit) =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('{"value":'));
+                init.signal?.addEventListener("abort", () =>
+                  controller.error(new DOMException("aborted", "AbortError"))
+                );
+              },
+            }),
+            { status: 200, headers: { "content-type": "application/json" } }
+          )
+      );
+
+      const result = await toolHandler({ flag_key: "my-feature" });
+
+      expect(result.structuredContent).toMatchObject({
+        failure: {
+          reason: "timeout",
+          message: "Request timed out after 20ms",
+          attempts: 1,
+        },
+      });
+    });
+  });
+
+  describe("Flag Matrix", () => {
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://api.example.com";
+      process.env.OPENFEATURE_OFREP_API_KEY = "test-key";
+      mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+        const { context } = JSON.parse(init.body as string);
+        const pro = context.plan === "pro";
+        const checkout = {
+          key: "new-checkout",
+          value: pro,
+          variant: pro ? "on" : "off",
+          reason: "TARGETING_MATCH",
+        };
+        if (url.endsWith("/flags/missing")) {
+          return new Response(
+            JSON.stringify({ key: "missing", errorCode: "FLAG_NOT_FOUND" }),
+            { status: 404, headers: { "content-type": "application/json" } }
+          );
+        }
+        const body = url.endsWith("/flags/new-checkout")
+          ? checkout
+          : {
+              flags: [
+                checkout,
+                { key: "banner", value: "hi", variant: "a", reason: "STATIC" },
+              ],
+            };
+        return new Response(JSON.stringify(body), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        });
+      });
+    });
+
+    it("should combine variations and summarize variant shares", async () => {
+      const result = await tools.get("ofrep_flag_matrix").handler({
+        base_context: { targetingKey: "user-1" },
+        variations: { country: ["US", "DE"], plan: ["free", "pro"] },
+        concurrency: 2,
+      });
+      const matrix: EvaluationMatrix = JSON.parse(
+        result.content[0].text as string
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(matrix.rows.map((row) => row.context)).toEqual([
+        { targetingKey: "user-1", country: "US", plan: "free" },
+        { targetingKey: "user-1", country: "US", plan: "pro" },
+        { targetingKey: "user-1", country: "DE", plan: "free" },
+        { targetingKey: "user-1", country: "DE", plan: "pro" },
+      ]);
+      expect(matrix.rows[1].flags?.["new-checkout"]).toEqual({
+        value: true,
+        variant: "on",
+        reason: "TARGETING_MATCH",
+      });
+      expect(matrix.summary).toEqual({
+        contexts: 4,
+        failedContexts: 0,
+        flags: [
+          {
+            key: "banner",
+            evaluated: 4,
+            variants: [{ variant: "a", value: "hi", count: 4, share: 1 }],
+          },
+          {
+            key: "new-checkout",
+            evaluated: 4,
+            variants: [
+              { variant: "off", value: false, count: 2, share: 0.5 },
+              { variant: "on", value: true, count: 2, share: 0.5 },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should evaluate a single flag per context", async () => {
+      const result = await tools.get("ofrep_flag_matrix").handler({
+        flag_key: "new-checkout",
+        contexts: [{ plan: "pro" }, { plan: "free" }, { plan: "pro" }],
+      });
+      const matrix: EvaluationMatrix = JSON.parse(
+        result.content[0].text as string
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "https://api.example.com/ofrep/v1/evaluate/flags/new-checkout"
+      );
+      expect(matrix.summary.flags[0].variants).toEqual([
+        { variant: "on", value: true, count: 2, share: 0.6667 },
+        { variant: "off", value: false, count: 1, share: 0.3333 },
+      ]);
+    });
+
+    it("should report flag errors and failed contexts on their rows", async () => {
+      const missing = await tools.get("ofrep_flag_matrix").handler({
+        flag_key: "missing",
+      });
+      expect(JSON.parse(missing.content[0].text as string).rows).toEqual([
+        { context: {}, flags: { missing: { errorCode: "FLAG_NOT_FOUND" } } },
+      ]);
+
+      process.env.OPENFEATURE_OFREP_MAX_RETRIES = "0";
+      mockFetch.mockImplementation(
+        async () => new Response("unavailable", { status: 503 })
+      );
+      const failed = await tools.get("ofrep_flag_matrix").handler({
+        contexts: [{ plan: "pro" }],
+      });
+      const matrix: EvaluationMatrix = JSON.parse(
+        failed.content[0].text as string
+      );
+      expect(matrix.summary).toMatchObject({ contexts: 1, failedContexts: 1 });
+      expect(matrix.rows[0].error).toContain("status 503");
+    });
+
+    it("should reject matrices with too many contexts", async () => {
+      await expect(
+        tools.get("ofrep_flag_matrix").handler({
+          variations: {
+            a: Array.from({ length: 30 }, (_, i) => i),
+            b: Array.from({ length: 30 }, (_, i) => i),
+          },
+        })
+      ).rejects.toThrow(/limited to 500 contexts/);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Evaluation History", () => {
+    let historyDir: string;
+    let historyPath: string;
+    let checkoutVariant: "on" | "off";
+
+    beforeEach(async () => {
+      historyDir = await mkdtemp(join(tmpdir(), "openfeature-mcp-"));
+      historyPath = join(historyDir, "history.jsonl");
+      process.env.OPENFEATURE_MCP_HISTORY_PATH = historyPath;
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://api.example.com";
+      process.env.OPENFEATURE_OFREP_API_KEY = "test-key";
+
+      checkoutVariant = "off";
+      mockFetch.mockImplementation(async (url: string) => {
+        const checkout = {
+          key: "new-checkout",
+          value: checkoutVariant === "on",
+          variant: checkoutVariant,
+          reason: "TARGETING_MATCH",
+        };
+        const body = url.endsWith("/flags/new-checkout")
+          ? checkout
+          : { flags: [checkout] };
+        return new Response(JSON.stringify(body), {
+          status: 200,
+          headers: {
+            "content-type": "application/json",
+            "cache-control": "max-age=60",
+            ETag: '"v1"',
+          },
+        });
+      });
+    });
+
+    afterEach(async () => {
+      await rm(historyDir, { recursive: true, force: true });
+    });
+
+    it("should record fresh evaluations with redacted contexts", async () => {
+      await toolHandler({ context: { targetingKey: "user-1", plan: "pro" } });
+      // Served from the bulk cache, so not recorded again
+      await toolHandler({ context: { targetingKey: "user-1", plan: "pro" } });
+
+      const lines = (await readFile(historyPath, "utf-8")).trim().split("\n");
+      expect(lines).toHaveLength(1);
+      const record = JSON.parse(lines[0]);
+      expect(record).toMatchObject({
+        baseUrl: "https://api.example.com",
+        flagKey: "new-checkout",
+        request: "bulk",
+        context: { targetingKey: "[REDACTED]", plan: "[REDACTED]" },
+        contextRedacted: true,
+        value: false,
+        variant: "off",
+        reason: "TARGETING_MATCH",
+        etag: '"v1"',
+      });
+      expect(JSON.stringify(record)).not.toContain("user-1");
+    });
+
+    it("should report when a flag flipped for a user", async () => {
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-1" },
+      });
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-2" },
+      });
+      checkoutVariant = "on";
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-1" },
+      });
+
+      const result = await tools.get("ofrep_history_query").handler({
+        flag_key: "new-checkout",
+        targeting_key: "user-1",
+      });
+      const history = JSON.parse(result.content[0].text as string);
+
+      expect(history.matched).toBe(2);
+      expect(history.transitions).toEqual([
+        expect.objectContaining({
+          flagKey: "new-checkout",
+          from: { value: false, variant: "off" },
+          to: { value: true, variant: "on" },
+          recordId: history.records[1].id,
+        }),
+      ]);
+    });
+
+    it("should replay a recorded evaluation against the current service", async () => {
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-1" },
+      });
+      const { records } = JSON.parse(
+        (await tools.get("ofrep_history_query").handler({})).content[0]
+          .text as string
+      );
+      const replay = tools.get("ofrep_history_replay").handler;
+
+      await expect(replay({ id: records[0].id })).rejects.toThrow(
+        "pass the original context"
+      );
+      await expect(
+        replay({ id: records[0].id, context: { targetingKey: "user-2" } })
+      ).rejects.toThrow("does not match the context recorded");
+
+      checkoutVariant = "on";
+      const result = await replay({
+        id: records[0].id,
+        context: { targetingKey: "user-1" },
+      });
+      expect(JSON.parse(result.content[0].text as string)).toMatchObject({
+        current: { key: "new-checkout", value: true, variant: "on" },
+        replayedAgainst: "https://api.example.com",
+        changed: true,
+        differences: ["value", "variant"],
+      });
+    });
+
+    it("should hash targeting keys with a per-install key", async () => {
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-1" },
+      });
+
+      const record = JSON.parse(await readFile(historyPath, "utf-8"));
+      const unsalted = createHash("sha256").update("user-1").digest("hex");
+      expect(record.targetingKeyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(record.targetingKeyHash).not.toBe(unsalted);
+      expect((await stat(`${historyPath}.key`)).mode & 0o777).toBe(0o600);
+    });
+
+    it("should skip history lines that are not valid records", async () => {
+      await toolHandler({
+        flag_key: "new-checkout",
+        context: { targetingKey: "user-1" },
+      });
+      await appendFile(
+        historyPath,
+        [
+          "{not json",
+          JSON.stringify({ id: "bad", flagKey: 42 }),
+          JSON.stringify({ id: "also-bad", context: "user-1" }),
+          "",
+        ].join("\n")
+      );
+
+      const result = await tools.get("ofrep_history_query").handler({});
+      const history = JSON.parse(result.content[0].text as string);
+      expect(history.matched).toBe(1);
+      expect(history.records[0].flagKey).toBe("new-checkout");
+    });
+
+    it("should compare since and until as times", async () => {
+      const record = (id: string, timestamp: string) =>
+        JSON.stringify({
+          id,
+          timestamp,
+          baseUrl: "https://api.example.com",
+          flagKey: "new-checkout",
+          request: "single",
+          contextHash: "h",
+          context: {},
+          contextRedacted: true,
+          value: true,
+        });
+      await writeFile(
+        historyPath,
+        [
+          record("before", "2026-01-01T09:59:59.900Z"),
+          record("start", "2026-01-01T10:00:00Z"),
+          record("inside", "2026-01-01T10:00:00.500Z"),
+          record("end", "2026-01-01T10:00:01Z"),
+          record("after", "2026-01-01T10:00:01.100Z"),
+          "",
+        ].join("\n")
+      );
+      const query = tools.get("ofrep_history_query").handler;
+      const ids = async (args: Record<string, unknown>) =>
+        JSON.parse((await query(args)).content[0].text as string).records.map(
+          (r: { id: string }) => r.id
+        );
+
+      expect(
+        await ids({
+          since: "2026-01-01T10:00:00Z",
+          until: "2026-01-01T10:00:01.000Z",
+        })
+      ).toEqual(["start", "inside", "end"]);
+      expect(await ids({ limit: 2 })).toEqual(["end", "after"]);
+    });
+
+    it("should refuse to query when history is disabled", async () => {
+      delete process.env.OPENFEATURE_MCP_HISTORY_PATH;
+
+      await expect(
+        tools.get("ofrep_history_query").handler({})
+      ).rejects.toThrow("Evaluation history is disabled");
+    });
+  });
+
+  describe("Typed Evaluation", () => {
+    beforeEach(() => {
+      process.env.OPENFEATURE_OFREP_BASE_URL = "https://api.example.com";
+      process.env.OPENFEATURE_OFREP_API_KEY = "test-key";
+    });
+
+    const respond = (status: number, body: unknown) =>
+      mockFetch.mockResolvedValue(
+        new Response(JSON.stringify(body), {
+          status,
+          headers: { "content-type": "application/json" },
+        })
+      );
+
+    it("should return SDK-style details for a matching type", async () => {
+      respond(200, {
+        key: "new-checkout",
+        value: true,
+        variant: "on",
+        reason: "TARGETING_MATCH",
+        metadata: { team: "payments" },
+      });
+
+      const result = await toolHandler({
+        flag_key: "new-checkout",
+        default_value: false,
+      });
+
+      expect(result.structuredContent?.details).toEqual({
+        flagKey: "new-checkout",
+        value: true,
+        variant: "on",
+        reason: "TARGETING_MATCH",
+        flagMetadata: { team: "payments" },
+      });
+    });
+
+    it("should fall back to the default value on a type mismatch", async () => {
+      respond(200, { key: "theme", value: "dark", reason: "STATIC" });
+
+      const result = await toolHandler({
+        flag_key: "theme",
+        type: "number",
+        default_value: 0,
+      });
+
+      expect(result.structuredContent?.details).toEqual({
+        flagKey: "theme",
+        value: 0,
+        reason: "ERROR",
+        errorCode: "TYPE_MISMATCH",
+        errorMessage: "Flag value is of type string, expected number",
+        flagMetadata: {},
+      });
+    });
+
+    it("should map flag errors to the default value", async () => {
+      respond(404, {
+        key: "missing",
+        errorCode: "FLAG_NOT_FOUND",
+        errorDetails: "flag missing not found",
+      });
+
+      const result = await toolHandler({
+        flag_key: "missing",
+        type: "object",
+        default_value: { columns: 1 },
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        status: 404,
+        details: {
+          flagKey: "missing",
+          value: { columns: 1 },
+          reason: "ERROR",
+          errorCode: "FLAG_NOT_FOUND",
+          errorMessage: "flag missing not found",
+        },
+      });
+    });
+
+    it("should reject inconsistent typed evaluation arguments", async () => {
+      await expect(toolHandler({ default_value: true })).rejects.toThrow(
+        "require a `flag_key`"
+      );
+      await expect(
+        toolHandler({ flag_key: "x", type: "boolean" })
+      ).rejects.toThrow("`default_value` is required");
+      await expect(
+        toolHandler({ flag_key: "x", type: "boolean", default_value: "no" })
+      ).rejects.toThrow("`default_value` is of type string, expected boolean");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,223 +1,729 @@
 import { z } from "zod";
 import type { RegisterToolWithErrorHandling } from "../server.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { readFile } from "node:fs/promises";
-import { homedir } from "node:os";
-import { resolve } from "node:path";
+import {
+  ContextPresetNameSchema,
+  deleteContextPreset,
+  listContextPresets,
+  listEnvironments,
+  resolveConfig,
+  saveContextPreset,
+  type OFREPConfig,
+} from "./ofrepConfig.js";
+import {
+  AuthSchema,
+  BaseUrlSchema,
+  ContextPresetSchema,
+  EnvironmentNameSchema,
+  EvaluationContextSchema,
+} from "./ofrepArgs.js";
+import {
+  fetchBulkEvaluation,
+  fetchOFREP,
+  isSingleFlagRequest,
+} from "./ofrepClient.js";
+import {
+  EvaluationDetailsSchema,
+  toEvaluationDetails,
+} from "./ofrepDetails.js";
+import { diffBulkEvaluations } from "./ofrepDiff.js";
+import {
+  getHistoryRecord,
+  hashContext,
+  queryHistory,
+  type HistoryRecord,
+} from "./ofrepHistory.js";
+import { evaluateMatrix, expandContexts } from "./ofrepMatrix.js";
+import {
+  BulkEvaluationSuccessSchema,
+  EvaluationFailureSchema,
+  EvaluationSuccessSchema,
+  FLAG_VALUE_TYPES,
+  FlagValueSchema,
+  flagValueType,
+  OFREPDiagnosticSchema,
+  type BulkFlagEvaluation,
+  type FlagValue,
+  type FlagValueType,
+} from "./ofrepSchemas.js";
 
 const OFREPArgsSchema = z.object({
-  base_url: z
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  flag_key: z
     .string()
-    .url()
     .optional()
     .describe(
-      "Base URL of your OFREP-compatible flag service. Must be set directly or via environment variables or config file."
+      "If provided, calls single flag evaluation, otherwise performs bulk evaluation."
     ),
-  flag_key: z
+  context_preset: ContextPresetSchema.optional(),
+  context: EvaluationContextSchema.optional().describe(
+    "Context information for flag evaluation"
+  ),
+  etag: z
     .string()
     .optional()
     .describe(
-      "If provided, calls single flag evaluation, otherwise performs bulk evaluation."
+      "ETag for bulk evaluation. Not needed normally: the server caches bulk results and revalidates them automatically."
     ),
-  context: z
-    .object({
-      targetingKey: z
-        .string()
-        .optional()
-        .describe(
-          "A string logically identifying the subject of evaluation (end-user, service, etc). Should be set in the majority of cases."
-        ),
-    })
-    .passthrough()
+  bypass_cache: z
+    .boolean()
+    .optional()
+    .describe(
+      "Skip the server's bulk evaluation cache and fetch a full result from the flag service."
+    ),
+  type: z
+    .enum(FLAG_VALUE_TYPES)
     .optional()
-    .describe("Context information for flag evaluation"),
-  etag: z.string().optional().describe("ETag for bulk evaluation"),
-  auth: z
+    .describe(
+      "Expected flag type, as in the SDK's get<Type>Details call. Requires flag_key and default_value; inferred from default_value when omitted."
+    ),
+  default_value: FlagValueSchema.optional().describe(
+    "Default value the application passes to the SDK. With flag_key, the result includes SDK-style `details` that fall back to it on errors or a TYPE_MISMATCH."
+  ),
+  auth: AuthSchema.optional(),
+});
+type OFREPArgs = z.infer<typeof OFREPArgsSchema>;
+
+type TypedEvaluation = { type: FlagValueType; defaultValue: FlagValue };
+
+const OFREPEvalOutputSchema = z.object({
+  status: z
+    .number()
+    .optional()
+    .describe("HTTP status returned by the flag service"),
+  etag: z
+    .string()
+    .optional()
+    .describe("ETag of a bulk evaluation, usable as `etag` on the next call"),
+  message: z.string().optional(),
+  cache: z
+    .enum(["hit", "revalidated", "miss", "bypass"])
+    .optional()
+    .describe(
+      "For bulk evaluations: served from cache (`hit`), from cache after a 304 (`revalidated`), or fetched (`miss`/`bypass`)"
+    ),
+  data: z
+    .union([EvaluationSuccessSchema, BulkEvaluationSuccessSchema])
+    .optional()
+    .describe(
+      "Validated evaluation result: a single flag evaluation or a bulk `{ flags }` result"
+    ),
+  error: z
+    .unknown()
+    .optional()
+    .describe("Error body or message when the evaluation request failed"),
+  failure: z
     .object({
-      bearer_token: z.string().min(1).optional(),
-      api_key: z.string().min(1).optional(),
+      reason: z.enum([
+        "rate_limited",
+        "server_unavailable",
+        "http_error",
+        "timeout",
+        "network_error",
+        "invalid_response",
+      ]),
+      message: z.string(),
+      attempts: z.number().int(),
+      retryAfterSeconds: z.number().optional(),
     })
-    .optional(),
+    .optional()
+    .describe("Why the request finally failed and how many attempts were made"),
+  diagnostics: z
+    .array(OFREPDiagnosticSchema)
+    .optional()
+    .describe(
+      "Places where the flag service response does not conform to the OFREP spec"
+    ),
+  raw: z
+    .unknown()
+    .optional()
+    .describe(
+      "Unvalidated response body, included when diagnostics are present"
+    ),
+  details: EvaluationDetailsSchema.optional().describe(
+    "For typed evaluations: the EvaluationDetails an OpenFeature SDK would return, including the default value on errors"
+  ),
 });
-type OFREPArgs = z.infer<typeof OFREPArgsSchema>;
+type OFREPEvalOutput = z.infer<typeof OFREPEvalOutputSchema>;
 
-const OFREPConfigSchema = z
-  .object({
-    baseUrl: z.string().min(1),
-    bearerToken: z.string().optional(),
-    apiKey: z.string().optional(),
-  })
-  .refine((data) => data.bearerToken || data.apiKey, {
-    message: "At least one of bearerToken or apiKey must be provided",
-    path: ["bearerToken"],
-  });
-
-const ConfigFileSchema = z.object({
-  OFREP: OFREPConfigSchema,
+const DiffSideSchema = z.object({
+  label: z
+    .string()
+    .optional()
+    .describe(
+      "Display name for this side. Defaults to the environment name or base URL."
+    ),
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  context_preset: ContextPresetSchema.optional(),
+  context: EvaluationContextSchema.optional().describe(
+    "Context for this side, merged over the shared context."
+  ),
+  auth: AuthSchema.optional(),
+});
+type DiffSide = z.infer<typeof DiffSideSchema>;
+
+const OFREPDiffArgsSchema = z.object({
+  left: DiffSideSchema.default({}).describe(
+    "First side of the comparison (e.g. staging)."
+  ),
+  right: DiffSideSchema.default({}).describe(
+    "Second side of the comparison (e.g. prod)."
+  ),
+  context: EvaluationContextSchema.optional().describe(
+    "Evaluation context used for both sides unless a side overrides it."
+  ),
 });
-type OFREPConfig = z.infer<typeof OFREPConfigSchema>;
-
-async function readConfigFromFile() {
-  try {
-    const explicitPath = process.env.OPENFEATURE_MCP_CONFIG_PATH;
-    const defaultPath = resolve(homedir(), ".openfeature-mcp.json");
-    const path =
-      explicitPath && explicitPath.length > 0 ? explicitPath : defaultPath;
-    const file = await readFile(path, { encoding: "utf-8" });
-
-    const { OFREP } = ConfigFileSchema.parse(JSON.parse(file));
-    return OFREP;
-  } catch {
-    return null;
-  }
-}
 
-async function resolveConfig(args: OFREPArgs) {
-  const envBase =
-    process.env.OPENFEATURE_OFREP_BASE_URL ?? process.env.OFREP_BASE_URL;
-  const envBearer =
-    process.env.OPENFEATURE_OFREP_BEARER_TOKEN ??
-    process.env.OFREP_BEARER_TOKEN;
-  const envApiKey =
-    process.env.OPENFEATURE_OFREP_API_KEY ?? process.env.OFREP_API_KEY;
+const SaveContextPresetArgsSchema = z.object({
+  name: ContextPresetNameSchema.describe(
+    "Preset name, e.g. 'internal-qa-user' or 'eu-free-tier'."
+  ),
+  context: EvaluationContextSchema.describe(
+    "Evaluation context to save. Replaces any preset with the same name."
+  ),
+});
 
-  const fileCfg = await readConfigFromFile();
+const DeleteContextPresetArgsSchema = z.object({
+  name: ContextPresetNameSchema.describe("Name of the preset to delete."),
+});
 
-  const baseUrl = args.base_url ?? envBase ?? fileCfg?.baseUrl;
-  const bearerToken =
-    args.auth?.bearer_token ?? envBearer ?? fileCfg?.bearerToken;
-  const apiKey = args.auth?.api_key ?? envApiKey ?? fileCfg?.apiKey;
+const HistoryQueryArgsSchema = z.object({
+  flag_key: z.string().optional().describe("Only records for this flag."),
+  environment: EnvironmentNameSchema.optional().describe(
+    "Only records evaluated against this environment."
+  ),
+  context: EvaluationContextSchema.optional().describe(
+    "Only records evaluated with exactly this context (matched by hash)."
+  ),
+  targeting_key: z
+    .string()
+    .optional()
+    .describe(
+      "Only records whose context had this targetingKey, e.g. to see when a flag flipped for one user."
+    ),
+  since: z
+    .string()
+    .datetime()
+    .optional()
+    .describe("ISO 8601 timestamp; only records at or after it."),
+  until: z
+    .string()
+    .datetime()
+    .optional()
+    .describe("ISO 8601 timestamp; only records at or before it."),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .default(100)
+    .describe("Maximum number of (most recent) records to return."),
+});
 
-  return OFREPConfigSchema.parse({ baseUrl, bearerToken, apiKey });
-}
+const HistoryReplayArgsSchema = z.object({
+  id: z.string().min(1).describe("Id of the history record to replay."),
+  context: EvaluationContextSchema.optional().describe(
+    "The original evaluation context. Required when the history stores redacted contexts; it must hash to the recorded context."
+  ),
+  base_url: BaseUrlSchema.optional().describe(
+    "Flag service to replay against. Defaults to the recorded environment, or the recorded base URL."
+  ),
+  auth: AuthSchema.optional(),
+});
+
+const MatrixAttributeValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+const OFREPMatrixArgsSchema = z.object({
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  auth: AuthSchema.optional(),
+  flag_key: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, evaluates only this flag in every context, otherwise all flags."
+    ),
+  context_preset: ContextPresetSchema.optional(),
+  base_context: EvaluationContextSchema.optional().describe(
+    "Context shared by every row, merged over the environment's default context."
+  ),
+  contexts: z
+    .array(EvaluationContextSchema)
+    .min(1)
+    .optional()
+    .describe(
+      "Contexts to evaluate, each merged over base_context (e.g. sample users)."
+    ),
+  variations: z
+    .record(z.string(), z.array(MatrixAttributeValueSchema))
+    .optional()
+    .describe(
+      'Attribute values to combine, e.g. {"country": ["US", "DE"], "plan": ["free", "pro"]}. Every combination is applied to each context.'
+    ),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(16)
+    .default(4)
+    .describe("Maximum number of evaluations in flight."),
+});
 
 /**
  * Calls the OFREP API with the given configuration and arguments.
  */
 async function callOFREPApi(
   cfg: OFREPConfig,
-  parsed: OFREPArgs
+  parsed: OFREPArgs,
+  typed?: TypedEvaluation
 ): Promise<CallToolResult> {
-  const base = cfg.baseUrl.replace(/\/$/, "");
-  const isSingleFlagEval =
-    typeof parsed.flag_key === "string" && parsed.flag_key.length > 0;
-  const url = isSingleFlagEval
-    ? `${base}/ofrep/v1/evaluate/flags/${encodeURIComponent(
-        parsed.flag_key as string
-      )}`
-    : `${base}/ofrep/v1/evaluate/flags`;
-
-  const headers: Record<string, string> = {
-    "content-type": "application/json",
-    accept: "application/json",
-  };
+  const response = await fetchOFREP(cfg, parsed);
 
-  if (cfg.bearerToken) {
-    headers["authorization"] = `Bearer ${cfg.bearerToken}`;
-  } else if (cfg.apiKey) {
-    headers["X-API-Key"] = cfg.apiKey;
+  let output: OFREPEvalOutput;
+  switch (response.kind) {
+    case "not_modified":
+      output = {
+        status: 304,
+        etag: response.etag,
+        message: "Bulk evaluation not modified",
+      };
+      break;
+    case "http_error":
+      output = {
+        status: response.status,
+        error: response.error,
+        failure: response.failure,
+      };
+      if (response.diagnostics.length > 0) {
+        output.diagnostics = response.diagnostics;
+      }
+      break;
+    case "error":
+      output = { error: response.error, failure: response.failure };
+      break;
+    case "success":
+      output = isSingleFlagRequest(parsed)
+        ? { status: response.status, data: response.data }
+        : {
+            status: response.status,
+            etag: response.etag,
+            cache: response.cache,
+            data: response.data,
+          };
+      if (response.diagnostics.length > 0) {
+        output.diagnostics = response.diagnostics;
+        output.raw = response.raw;
+      }
+      break;
   }
-  if (!isSingleFlagEval && parsed.etag) {
-    headers["If-None-Match"] = parsed.etag;
+  if (typed) {
+    output.details = toEvaluationDetails(
+      parsed.flag_key as string,
+      typed.type,
+      typed.defaultValue,
+      response
+    );
   }
 
-  const body = JSON.stringify({
-    context: parsed.context ?? {},
-  });
+  return {
+    content: [{ type: "text", text: JSON.stringify(output) }],
+    structuredContent: output,
+  };
+}
+
+type DiffSideResult = {
+  label: string;
+  baseUrl: string;
+  flags: BulkFlagEvaluation[];
+};
+
+async function evaluateDiffSide(
+  side: DiffSide,
+  sharedContext: Record<string, unknown> | undefined
+): Promise<DiffSideResult> {
+  const cfg = await resolveConfig(side);
+  const context = { ...cfg.context, ...sharedContext, ...side.context };
+  const label = side.label ?? cfg.environment ?? cfg.baseUrl;
+
+  const { flags } = await fetchBulkEvaluation(cfg, context, label);
+  return { label, baseUrl: cfg.baseUrl, flags };
+}
 
-  try {
-    console.error(`Fetching OFREP API, url: ${url}, body: ${body}`);
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body,
+/**
+ * Validates the `type` and `default_value` arguments of a typed evaluation.
+ * Returns undefined for an untyped evaluation.
+ */
+function typedEvaluation(parsed: OFREPArgs): TypedEvaluation | undefined {
+  if (parsed.type === undefined && parsed.default_value === undefined) {
+    return undefined;
+  }
+  if (!parsed.flag_key) {
+    throw new Error("`type` and `default_value` require a `flag_key`");
+  }
+  if (parsed.default_value === undefined) {
+    throw new Error(
+      "`default_value` is required for a typed evaluation, as in the SDK"
+    );
+  }
+  const defaultType = flagValueType(parsed.default_value);
+  const type = parsed.type ?? (defaultType as FlagValueType);
+  if (defaultType !== type) {
+    throw new Error(
+      `\`default_value\` is of type ${defaultType}, expected ${type}`
+    );
+  }
+  return { type, defaultValue: parsed.default_value };
+}
+
+/**
+ * Evaluates a single flag, returning a flag-level error (such as
+ * FLAG_NOT_FOUND) as a failed evaluation rather than throwing.
+ */
+async function evaluateSingleFlag(
+  cfg: OFREPConfig,
+  flagKey: string,
+  context: Record<string, unknown>
+): Promise<BulkFlagEvaluation[]> {
+  const response = await fetchOFREP(cfg, { flag_key: flagKey, context });
+  if (response.kind === "success" && response.data && "key" in response.data) {
+    return [response.data];
+  }
+  if (response.kind === "http_error") {
+    const failure = EvaluationFailureSchema.safeParse({
+      key: flagKey,
+      ...(response.error as object),
     });
+    if (failure.success) {
+      return [failure.data];
+    }
+    throw new Error(
+      `Evaluation of '${flagKey}' failed (status ${response.status})`
+    );
+  }
+  throw new Error(
+    response.kind === "error"
+      ? response.failure.message
+      : `Evaluation of '${flagKey}' returned an invalid response`
+  );
+}
 
-    const etag =
-      response.headers.get("ETag") ??
-      response.headers.get("Etag") ??
-      response.headers.get("etag") ??
-      undefined;
+function recordedEvaluation(record: HistoryRecord): BulkFlagEvaluation {
+  return record.errorCode
+    ? { key: record.flagKey, errorCode: record.errorCode }
+    : {
+        key: record.flagKey,
+        value: record.value as FlagValue,
+        ...(record.variant !== undefined ? { variant: record.variant } : {}),
+        ...(record.reason !== undefined ? { reason: record.reason } : {}),
+      };
+}
 
-    console.error(`OFREP API response, status: ${response.status}`);
-    if (response.status === 304) {
+export function registerOFREPTools(
+  registerToolWithErrorHandling: RegisterToolWithErrorHandling
+): void {
+  registerToolWithErrorHandling(
+    "ofrep_flag_eval",
+    {
+      description: [
+        "Evaluate feature flags using OpenFeature Remote Evaluation Protocol (OFREP).",
+        "If flag_key is omitted, performs bulk evaluation.",
+        "Pass `default_value` (and optionally `type`) with flag_key to get the SDK-style EvaluationDetails application code would see, including TYPE_MISMATCH and FLAG_NOT_FOUND falling back to the default.",
+        "Responses are validated against the OFREP spec; violations are reported in `diagnostics`.",
+      ].join("\n"),
+      inputSchema: OFREPArgsSchema.shape,
+      outputSchema: OFREPEvalOutputSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = OFREPArgsSchema.parse(args);
+      const typed = typedEvaluation(parsed);
+
+      const cfg = await resolveConfig(parsed);
+      const context =
+        cfg.context || parsed.context
+          ? { ...cfg.context, ...parsed.context }
+          : undefined;
+      return await callOFREPApi(cfg, { ...parsed, context }, typed);
+    }
+  );
+
+  registerToolWithErrorHandling(
+    "ofrep_list_environments",
+    {
+      description: [
+        "List the OFREP environments configured in the OpenFeature MCP config file.",
+        "Credentials are redacted. Use an environment name as the `environment` argument of ofrep_flag_eval.",
+      ].join("\n"),
+      annotations: {
+        title: "List OFREP Environments",
+        readOnlyHint: true,
+      },
+    },
+    async (): Promise<CallToolResult> => {
+      const environments = await listEnvironments();
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              status: 304,
-              etag,
-              message: "Bulk evaluation not modified",
-            }),
-          },
-        ],
+        content: [{ type: "text", text: JSON.stringify(environments) }],
       };
     }
+  );
 
-    // Read body once as text, then safely attempt JSON parse
-    const rawText = await response.text().catch(() => undefined);
-    let dataJSON: unknown = undefined;
-    if (typeof rawText === "string" && rawText.length > 0) {
-      try {
-        dataJSON = JSON.parse(rawText);
-      } catch {
-        // not JSON; keep raw text
+  registerToolWithErrorHandling(
+    "ofrep_flag_diff",
+    {
+      description: [
+        "Compare OFREP bulk evaluations between two environments, base URLs/credentials or evaluation contexts.",
+        "Returns flags missing on either side and flags whose value, variant, reason or error code differ.",
+        "Use it to explain rollout drift, e.g. why a flag behaves differently in staging and prod.",
+      ].join("\n"),
+      annotations: {
+        title: "Diff OFREP Flag Evaluations",
+        readOnlyHint: true,
+      },
+      inputSchema: OFREPDiffArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = OFREPDiffArgsSchema.parse(args);
+
+      const sides = await Promise.allSettled([
+        evaluateDiffSide(parsed.left, parsed.context),
+        evaluateDiffSide(parsed.right, parsed.context),
+      ]);
+      const failures = sides
+        .filter(
+          (side): side is PromiseRejectedResult => side.status === "rejected"
+        )
+        .map((side) =>
+          side.reason instanceof Error
+            ? side.reason.message
+            : String(side.reason)
+        );
+      if (failures.length > 0) {
+        throw new Error(failures.join("\n"));
       }
-    }
+      const [left, right] = sides.map(
+        (side) => (side as PromiseFulfilledResult<DiffSideResult>).value
+      );
+      const diff = diffBulkEvaluations(left.flags, right.flags);
 
-    if (!response.ok) {
-      const errorMessage = dataJSON ?? rawText;
-      const errorData = {
-        status: response.status,
-        error: errorMessage,
+      const result = {
+        left: {
+          label: left.label,
+          baseUrl: left.baseUrl,
+          flagCount: left.flags.length,
+        },
+        right: {
+          label: right.label,
+          baseUrl: right.baseUrl,
+          flagCount: right.flags.length,
+        },
+        ...diff,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
       };
-      const errorJSON = JSON.stringify(errorData);
-      console.error(
-        `OFREP API error, status: ${response.status}, error: ${errorJSON}`
+    }
+  );
+  registerToolWithErrorHandling(
+    "ofrep_flag_matrix",
+    {
+      description: [
+        "Evaluate one flag or all flags across many evaluation contexts to see who gets what.",
+        "Pass a list of contexts, attribute variations (e.g. country x plan x targetingKey samples) combined into contexts, or both.",
+        "Returns the value, variant and reason per context and a summary of each variant's share for every flag.",
+      ].join("\n"),
+      annotations: {
+        title: "OFREP Evaluation Matrix",
+        readOnlyHint: true,
+      },
+      inputSchema: OFREPMatrixArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = OFREPMatrixArgsSchema.parse(args);
+      const cfg = await resolveConfig(parsed);
+      const contexts = expandContexts(
+        (parsed.contexts ?? [{}]).map((context) => ({
+          ...parsed.base_context,
+          ...context,
+        })),
+        parsed.variations
+      );
+
+      const matrix = await evaluateMatrix(
+        contexts,
+        async (context) => {
+          const merged = { ...cfg.context, ...context };
+          if (parsed.flag_key) {
+            return evaluateSingleFlag(cfg, parsed.flag_key, merged);
+          }
+          const label = cfg.environment ?? cfg.baseUrl;
+          return (await fetchBulkEvaluation(cfg, merged, label)).flags;
+        },
+        parsed.concurrency
       );
       return {
-        content: [{ type: "text", text: errorJSON }],
+        content: [{ type: "text", text: JSON.stringify(matrix) }],
       };
     }
+  );
+  registerToolWithErrorHandling(
+    "ofrep_list_context_presets",
+    {
+      description: [
+        "List the named evaluation contexts (e.g. 'internal-qa-user', 'eu-free-tier') saved in the OpenFeature MCP config file.",
+        "Pass a preset name as the `context_preset` argument of the OFREP tools instead of building the context by hand.",
+      ].join("\n"),
+      annotations: {
+        title: "List Context Presets",
+        readOnlyHint: true,
+      },
+    },
+    async (): Promise<CallToolResult> => {
+      const presets = await listContextPresets();
+      return {
+        content: [{ type: "text", text: JSON.stringify(presets) }],
+      };
+    }
+  );
 
-    if (!dataJSON) {
-      throw new Error("No JSON data returned from OFREP API");
+  registerToolWithErrorHandling(
+    "ofrep_save_context_preset",
+    {
+      description: [
+        "Save a named evaluation context to the OpenFeature MCP config file so the team can reuse it via `context_preset`.",
+        "Replaces an existing preset with the same name.",
+      ].join("\n"),
+      annotations: {
+        title: "Save Context Preset",
+        readOnlyHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: SaveContextPresetArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { name, context } = SaveContextPresetArgsSchema.parse(args);
+      const result = await saveContextPreset(name, context);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ name, ...result }) }],
+      };
     }
+  );
 
-    const responseData = isSingleFlagEval
-      ? { status: response.status, data: dataJSON }
-      : { status: response.status, etag, data: dataJSON };
-
-    console.error(`OFREP API success, status: ${response.status}`);
-    return {
-      content: [{ type: "text", text: JSON.stringify(responseData) }],
-    };
-  } catch (err) {
-    const errMsg = { error: err instanceof Error ? err.message : String(err) };
-    const jsonErrMsg = JSON.stringify(errMsg);
-    console.error(`OFREP API error, error: ${jsonErrMsg}`);
-    return { content: [{ type: "text", text: jsonErrMsg }] };
-  }
-}
+  registerToolWithErrorHandling(
+    "ofrep_delete_context_preset",
+    {
+      description:
+        "Delete a named evaluation context from the OpenFeature MCP config file.",
+      annotations: {
+        title: "Delete Context Preset",
+        readOnlyHint: false,
+        destructiveHint: true,
+      },
+      inputSchema: DeleteContextPresetArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { name } = DeleteContextPresetArgsSchema.parse(args);
+      const result = await deleteContextPreset(name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ name, deleted: true, ...result }),
+          },
+        ],
+      };
+    }
+  );
 
-export function registerOFREPTools(
-  registerToolWithErrorHandling: RegisterToolWithErrorHandling
-): void {
   registerToolWithErrorHandling(
-    "ofrep_flag_eval",
+    "ofrep_history_query",
     {
       description: [
-        "Evaluate feature flags using OpenFeature Remote Evaluation Protocol (OFREP).",
-        "If flag_key is omitted, performs bulk evaluation.",
+        "Query the local evaluation history recorded by this server (enable with OPENFEATURE_MCP_HISTORY=true or OPENFEATURE_MCP_HISTORY_PATH).",
+        "Filter by flag, environment, context, targeting key and time range to answer questions like 'when did flag X flip for this user?'.",
+        "Returns the most recent matching records and the transitions where a flag's value, variant or error changed for the same context.",
       ].join("\n"),
-      inputSchema: OFREPArgsSchema.shape,
+      annotations: {
+        title: "Query OFREP Evaluation History",
+        readOnlyHint: true,
+      },
+      inputSchema: HistoryQueryArgsSchema.shape,
     },
     async (args: unknown): Promise<CallToolResult> => {
-      const parsed = OFREPArgsSchema.parse(args);
+      const parsed = HistoryQueryArgsSchema.parse(args);
+      const result = await queryHistory({
+        flagKey: parsed.flag_key,
+        environment: parsed.environment,
+        context: parsed.context,
+        targetingKey: parsed.targeting_key,
+        since: parsed.since,
+        until: parsed.until,
+        limit: parsed.limit,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }
+  );
 
-      const cfg = await resolveConfig(parsed);
-      return await callOFREPApi(cfg, parsed);
+  registerToolWithErrorHandling(
+    "ofrep_history_replay",
+    {
+      description: [
+        "Replay a recorded evaluation (see ofrep_history_query) against the current flag service.",
+        "Evaluates the same flag with the same context and reports whether the value, variant, reason or error code changed since it was recorded.",
+      ].join("\n"),
+      annotations: {
+        title: "Replay OFREP Evaluation",
+        readOnlyHint: false,
+      },
+      inputSchema: HistoryReplayArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = HistoryReplayArgsSchema.parse(args);
+      const record = await getHistoryRecord(parsed.id);
+
+      let context: Record<string, unknown>;
+      if (parsed.context) {
+        if ((await hashContext(parsed.context)) !== record.contextHash) {
+          throw new Error(
+            `The given context does not match the context recorded for '${parsed.id}'`
+          );
+        }
+        context = parsed.context;
+      } else if (!record.contextRedacted) {
+        context = record.context;
+      } else {
+        throw new Error(
+          `The context of '${parsed.id}' was recorded redacted; pass the original context to replay it`
+        );
+      }
+
+      const cfg = await resolveConfig({
+        base_url:
+          parsed.base_url ?? (record.environment ? undefined : record.baseUrl),
+        environment: record.environment,
+        auth: parsed.auth,
+      });
+      const [current] = await evaluateSingleFlag(cfg, record.flagKey, context);
+      const diff = diffBulkEvaluations([recordedEvaluation(record)], [current]);
+
+      const result = {
+        recorded: record,
+        current,
+        replayedAgainst: cfg.environment ?? cfg.baseUrl,
+        changed: diff.changed.length > 0,
+        ...(diff.changed.length > 0
+          ? { differences: diff.changed[0].differences }
+          : {}),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
     }
   );
 }
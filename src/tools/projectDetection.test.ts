@@ -0,0 +1,197 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadCatalogs, resetCatalogs } from "../catalog.js";
+import { detectProject } from "./projectDetection.js";
+
+// A fixture manifest keeps the tests independent of the generated bundle
+const FIXTURE_MANIFEST = fileURLToPath(
+  new URL("../fixtures/providers.json", import.meta.url)
+);
+
+describe("detectProject", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    process.env.OPENFEATURE_MCP_PROVIDERS_PATH = FIXTURE_MANIFEST;
+    await loadCatalogs();
+  });
+
+  afterAll(() => {
+    resetCatalogs();
+    delete process.env.OPENFEATURE_MCP_PROVIDERS_PATH;
+  });
+
+  async function write(files: Record<string, unknown>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(
+        join(dir, name),
+        typeof content === "string" ? content : JSON.stringify(content)
+      );
+    }
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "openfeature-project-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should detect React with installed OpenFeature packages", async () => {
+    await write({
+      "package.json": {
+        dependencies: {
+          react: "^18.2.0",
+          "@openfeature/react-sdk": "^1.0.0",
+          "@openfeature/flagd-web-provider": "^0.7.0",
+        },
+      },
+      "package-lock.json": {
+        packages: {
+          "node_modules/@openfeature/react-sdk": { version: "1.0.2" },
+        },
+      },
+    });
+
+    const detection = await detectProject(dir);
+
+    expect(detection).toMatchObject({
+      technology: "react",
+      packageManager: "npm",
+      providers: ["flagd"],
+      recommendedNextCall: {
+        tool: "install_openfeature_sdk",
+        arguments: { technology: "react", providers: ["flagd"] },
+      },
+    });
+    expect(detection.openFeatureDependencies).toEqual([
+      {
+        name: "@openfeature/react-sdk",
+        kind: "sdk",
+        declared: "^1.0.0",
+        installed: "1.0.2",
+        manifest: "package.json",
+      },
+      {
+        name: "@openfeature/flagd-web-provider",
+        kind: "provider",
+        declared: "^0.7.0",
+        manifest: "package.json",
+      },
+    ]);
+  });
+
+  it("should tell NestJS and Node.js apart and read the package manager", async () => {
+    await write({
+      "package.json": {
+        dependencies: { "@nestjs/core": "^10.0.0", express: "^4.0.0" },
+      },
+      "pnpm-lock.yaml": "",
+    });
+    expect(await detectProject(dir)).toMatchObject({
+      technology: "nestjs",
+      packageManager: "pnpm",
+      openFeatureDependencies: [],
+    });
+
+    await write({ "package.json": { dependencies: { express: "^4.0.0" } } });
+    expect((await detectProject(dir)).technology).toBe("nodejs");
+  });
+
+  it("should read Go module requirements", async () => {
+    await write({
+      "go.mod": [
+        "module example.com/app",
+        "",
+        "go 1.22",
+        "",
+        "require (",
+        "\tgithub.com/open-feature/go-sdk v1.11.0",
+        "\tgithub.com/open-feature/go-sdk-contrib/providers/flagd v0.2.0",
+        "\tgithub.com/stretchr/testify v1.9.0",
+        ")",
+      ].join("\n"),
+    });
+
+    const detection = await detectProject(dir);
+
+    expect(detection.technology).toBe("go");
+    expect(detection.openFeatureDependencies).toEqual([
+      expect.objectContaining({
+        name: "github.com/open-feature/go-sdk",
+        kind: "sdk",
+        installed: "v1.11.0",
+      }),
+      expect.objectContaining({
+        name: "github.com/open-feature/go-sdk-contrib/providers/flagd",
+        kind: "provider",
+      }),
+    ]);
+  });
+
+  it("should read Python requirements and the Poetry lockfile", async () => {
+    await write({
+      "pyproject.toml": [
+        "[project]",
+        'name = "app"',
+        'dependencies = ["openfeature-sdk>=0.7.0", "requests"]',
+      ].join("\n"),
+      "poetry.lock": "",
+    });
+
+    expect(await detectProject(dir)).toMatchObject({
+      technology: "python",
+      packageManager: "poetry",
+      openFeatureDependencies: [
+        { name: "openfeature-sdk", kind: "sdk", declared: ">=0.7.0" },
+      ],
+    });
+  });
+
+  it("should detect Kotlin Gradle builds and .NET projects", async () => {
+    await write({
+      "build.gradle.kts": [
+        'plugins { kotlin("jvm") version "1.9.0" }',
+        'dependencies { implementation("dev.openfeature:kotlin-sdk:0.3.0") }',
+      ].join("\n"),
+      "App.csproj":
+        '<Project><ItemGroup><PackageReference Include="OpenFeature" Version="2.0.0" /></ItemGroup></Project>',
+    });
+
+    const detection = await detectProject(dir);
+
+    expect(detection).toMatchObject({
+      technology: "kotlin",
+      packageManager: "gradle",
+      candidates: [
+        { technology: "kotlin", manifest: "build.gradle.kts" },
+        { technology: "dotnet", manifest: "App.csproj" },
+      ],
+    });
+    expect(detection.notes[0]).toContain("Multiple manifests found");
+    expect(detection.openFeatureDependencies.map((d) => d.name)).toEqual([
+      "dev.openfeature:kotlin-sdk",
+      "OpenFeature",
+    ]);
+  });
+
+  it("should explain when no manifest is found", async () => {
+    const detection = await detectProject(dir);
+
+    expect(detection.technology).toBeUndefined();
+    expect(detection.recommendedNextCall).toBeUndefined();
+    expect(detection.notes[0]).toContain("No supported manifest found");
+  });
+});
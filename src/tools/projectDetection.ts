@@ -0,0 +1,525 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { InstallTechnology } from "./promptsBundle.generated.js";
+import { getProviders } from "../catalog.js";
+
+export type DependencyKind = "sdk" | "provider" | "other";
+
+export type OpenFeatureDependency = {
+  name: string;
+  kind: DependencyKind;
+  /** Version constraint declared in the manifest, e.g. `^1.14.0`. */
+  declared?: string;
+  /** Exact version resolved by the lockfile, when there is one. */
+  installed?: string;
+  manifest: string;
+};
+
+export type TechnologyCandidate = {
+  technology: InstallTechnology;
+  packageManager: string;
+  manifest: string;
+  evidence: string;
+};
+
+export type ProjectDetection = {
+  directory: string;
+  technology?: InstallTechnology;
+  packageManager?: string;
+  candidates: TechnologyCandidate[];
+  openFeatureDependencies: OpenFeatureDependency[];
+  providers: string[];
+  recommendedNextCall?: {
+    tool: string;
+    arguments: Record<string, unknown>;
+    reason: string;
+  };
+  notes: string[];
+};
+
+type Dependency = { name: string; declared?: string; installed?: string };
+
+type ManifestResult = {
+  candidate: TechnologyCandidate;
+  dependencies: Dependency[];
+};
+
+const OPENFEATURE_PATTERN = /open-?feature/i;
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, { encoding: "utf-8" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  const text = await readText(path);
+  if (text === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function providersIn(name: string): string[] {
+  const lower = name.toLowerCase();
+  return getProviders().filter((provider) =>
+    lower.includes(provider.toLowerCase())
+  );
+}
+
+function classify(name: string): DependencyKind {
+  const lower = name.toLowerCase();
+  if (providersIn(lower).length > 0 || /provider|contrib/.test(lower)) {
+    return "provider";
+  }
+  if (/sdk|^openfeature$|[/:]core$/.test(lower)) {
+    return "sdk";
+  }
+  return "other";
+}
+
+type PackageJson = {
+  packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+};
+
+function nodePackageManager(pkg: PackageJson, files: Set<string>): string {
+  const fromField = pkg.packageManager?.split("@")[0];
+  if (fromField) {
+    return fromField;
+  }
+  if (files.has("bun.lockb") || files.has("bun.lock")) return "bun";
+  if (files.has("pnpm-lock.yaml")) return "pnpm";
+  if (files.has("yarn.lock")) return "yarn";
+  return "npm";
+}
+
+/**
+ * Picks the technology of a JavaScript project from its dependencies: NestJS
+ * and React win over plain JavaScript, and browser tooling means client-side.
+ */
+function nodeTechnology(deps: Record<string, string>): {
+  technology: InstallTechnology;
+  evidence: string;
+} {
+  const has = (name: string) => name in deps;
+  if (has("@nestjs/core")) {
+    return { technology: "nestjs", evidence: "depends on @nestjs/core" };
+  }
+  const react = ["react", "react-dom", "next", "react-native"].find(has);
+  if (react) {
+    return { technology: "react", evidence: `depends on ${react}` };
+  }
+  const browser = [
+    "@openfeature/web-sdk",
+    "vite",
+    "webpack",
+    "parcel",
+    "@angular/core",
+    "vue",
+    "svelte",
+  ].find(has);
+  if (browser) {
+    return { technology: "javascript", evidence: `depends on ${browser}` };
+  }
+  return {
+    technology: "nodejs",
+    evidence: "package.json without browser framework dependencies",
+  };
+}
+
+async function detectNode(
+  dir: string,
+  files: Set<string>
+): Promise<ManifestResult | undefined> {
+  const pkg = await readJson<PackageJson>(join(dir, "package.json"));
+  if (!pkg) {
+    return undefined;
+  }
+  const deps = { ...pkg.devDependencies, ...pkg.dependencies };
+  const lock = await readJson<{
+    packages?: Record<string, { version?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  }>(join(dir, "package-lock.json"));
+
+  const { technology, evidence } = nodeTechnology(deps);
+  return {
+    candidate: {
+      technology,
+      packageManager: nodePackageManager(pkg, files),
+      manifest: "package.json",
+      evidence,
+    },
+    dependencies: Object.entries(deps).map(([name, declared]) => ({
+      name,
+      declared,
+      installed:
+        lock?.packages?.[`node_modules/${name}`]?.version ??
+        lock?.dependencies?.[name]?.version,
+    })),
+  };
+}
+
+async function detectGo(dir: string): Promise<ManifestResult | undefined> {
+  const goMod = await readText(join(dir, "go.mod"));
+  if (goMod === undefined) {
+    return undefined;
+  }
+  const dependencies: Dependency[] = [];
+  const requirePattern =
+    /^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/[^\s]+)\s+(v[^\s]+)/gm;
+  for (const match of goMod.matchAll(requirePattern)) {
+    dependencies.push({ name: match[1], installed: match[2] });
+  }
+  return {
+    candidate: {
+      technology: "go",
+      packageManager: "go modules",
+      manifest: "go.mod",
+      evidence: "go.mod",
+    },
+    dependencies,
+  };
+}
+
+function xmlValue(block: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`).exec(block)?.[1];
+}
+
+async function detectMaven(dir: string): Promise<ManifestResult | undefined> {
+  const pom = await readText(join(dir, "pom.xml"));
+  if (pom === undefined) {
+    return undefined;
+  }
+  const dependencies: Dependency[] = [];
+  for (const [block] of pom.matchAll(/<dependency>[\s\S]*?<\/dependency>/g)) {
+    const group = xmlValue(block, "groupId");
+    const artifact = xmlValue(block, "artifactId");
+    if (group && artifact) {
+      dependencies.push({
+        name: `${group}:${artifact}`,
+        declared: xmlValue(block, "version"),
+      });
+    }
+  }
+  const kotlin = /kotlin-maven-plugin|org\.jetbrains\.kotlin/.test(pom);
+  return {
+    candidate: {
+      technology: kotlin ? "kotlin" : "java",
+      packageManager: "maven",
+      manifest: "pom.xml",
+      evidence: kotlin ? "pom.xml with the Kotlin plugin" : "pom.xml",
+    },
+    dependencies,
+  };
+}
+
+async function detectGradle(
+  dir: string,
+  files: Set<string>
+): Promise<ManifestResult | undefined> {
+  const manifest = ["build.gradle.kts", "build.gradle"].find((f) =>
+    files.has(f)
+  );
+  if (!manifest) {
+    return undefined;
+  }
+  const build = (await readText(join(dir, manifest))) ?? "";
+  const dependencies: Dependency[] = [];
+  for (const match of build.matchAll(
+    /["']([\w.-]+):([\w.-]+)(?::([^"'@]+))?["']/g
+  )) {
+    dependencies.push({ name: `${match[1]}:${match[2]}`, declared: match[3] });
+  }
+  const kotlin = /kotlin\(|org\.jetbrains\.kotlin|com\.android\./.test(build);
+  return {
+    candidate: {
+      technology: kotlin ? "kotlin" : "java",
+      packageManager: "gradle",
+      manifest,
+      evidence: kotlin ? `${manifest} applies Kotlin or Android` : manifest,
+    },
+    dependencies,
+  };
+}
+
+async function detectDotnet(
+  dir: string,
+  files: Set<string>
+): Promise<ManifestResult | undefined> {
+  const manifest = [...files].find((f) => /\.(cs|fs|vb)proj$/.test(f));
+  if (!manifest) {
+    return undefined;
+  }
+  const project = (await readText(join(dir, manifest))) ?? "";
+  const dependencies: Dependency[] = [];
+  for (const [tag] of project.matchAll(/<PackageReference\b[^>]*>/g)) {
+    const name = /Include="([^"]+)"/.exec(tag)?.[1];
+    if (name) {
+      dependencies.push({ name, declared: /Version="([^"]+)"/.exec(tag)?.[1] });
+    }
+  }
+  return {
+    candidate: {
+      technology: "dotnet",
+      packageManager: "nuget",
+      manifest,
+      evidence: manifest,
+    },
+    dependencies,
+  };
+}
+
+function parseRequirement(spec: string): Dependency | undefined {
+  const match = /^\s*([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(.*)$/.exec(spec);
+  if (!match) {
+    return undefined;
+  }
+  const declared = match[2].split(";")[0].trim();
+  return {
+    name: match[1].toLowerCase(),
+    ...(declared ? { declared } : {}),
+  };
+}
+
+async function detectPython(
+  dir: string,
+  files: Set<string>
+): Promise<ManifestResult | undefined> {
+  const manifests = [...files]
+    .filter((f) => /^requirements.*\.txt$/.test(f))
+    .concat(["pyproject.toml", "Pipfile"].filter((f) => files.has(f)));
+  if (manifests.length === 0) {
+    return undefined;
+  }
+
+  const dependencies: Dependency[] = [];
+  for (const manifest of manifests) {
+    const text = (await readText(join(dir, manifest))) ?? "";
+    if (manifest.endsWith(".txt")) {
+      for (const line of text.split("\n")) {
+        const spec = line.split("#")[0].trim();
+        const dep = spec && !spec.startsWith("-") && parseRequirement(spec);
+        if (dep) dependencies.push(dep);
+      }
+    } else {
+      // PEP 621 strings ("openfeature-sdk>=0.7") and Poetry/Pipfile tables
+      // (openfeature-sdk = "^0.7")
+      for (const match of text.matchAll(/["']([A-Za-z0-9][^"']*)["']/g)) {
+        const dep = parseRequirement(match[1]);
+        if (dep && OPENFEATURE_PATTERN.test(dep.name)) dependencies.push(dep);
+      }
+      for (const match of text.matchAll(
+        /^\s*([A-Za-z0-9][\w.-]*)\s*=\s*["']([^"']+)["']/gm
+      )) {
+        dependencies.push({ name: match[1].toLowerCase(), declared: match[2] });
+      }
+    }
+  }
+
+  const packageManager = files.has("uv.lock")
+    ? "uv"
+    : files.has("poetry.lock")
+    ? "poetry"
+    : files.has("Pipfile")
+    ? "pipenv"
+    : "pip";
+  return {
+    candidate: {
+      technology: "python",
+      packageManager,
+      manifest: manifests[0],
+      evidence: manifests.join(", "),
+    },
+    dependencies,
+  };
+}
+
+async function detectRuby(dir: string): Promise<ManifestResult | undefined> {
+  const gemfile = await readText(join(dir, "Gemfile"));
+  if (gemfile === undefined) {
+    return undefined;
+  }
+  const lock = (await readText(join(dir, "Gemfile.lock"))) ?? "";
+  const dependencies: Dependency[] = [];
+  for (const match of gemfile.matchAll(
+    /^\s*gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/gm
+  )) {
+    const name = match[1];
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    dependencies.push({
+      name,
+      declared: match[2],
+      installed: new RegExp(`^\\s{4}${escaped} \\(([^)]+)\\)`, "m").exec(
+        lock
+      )?.[1],
+    });
+  }
+  return {
+    candidate: {
+      technology: "ruby",
+      packageManager: "bundler",
+      manifest: "Gemfile",
+      evidence: "Gemfile",
+    },
+    dependencies,
+  };
+}
+
+async function detectPhp(dir: string): Promise<ManifestResult | undefined> {
+  const composer = await readJson<{
+    require?: Record<string, string>;
+    "require-dev"?: Record<string, string>;
+  }>(join(dir, "composer.json"));
+  if (!composer) {
+    return undefined;
+  }
+  const lock = await readJson<{
+    packages?: Array<{ name: string; version: string }>;
+  }>(join(dir, "composer.lock"));
+  const deps = { ...composer["require-dev"], ...composer.require };
+  return {
+    candidate: {
+      technology: "php",
+      packageManager: "composer",
+      manifest: "composer.json",
+      evidence: "composer.json",
+    },
+    dependencies: Object.entries(deps).map(([name, declared]) => ({
+      name,
+      declared,
+      installed: lock?.packages?.find((p) => p.name === name)?.version,
+    })),
+  };
+}
+
+async function detectSwift(dir: string): Promise<ManifestResult | undefined> {
+  const manifest = await readText(join(dir, "Package.swift"));
+  if (manifest === undefined) {
+    return undefined;
+  }
+  const dependencies: Dependency[] = [];
+  for (const match of manifest.matchAll(
+    /\.package\(\s*url:\s*"([^"]+)"\s*,\s*(?:from:\s*"([^"]+)"|[^)]*)/g
+  )) {
+    dependencies.push({
+      name: match[1].replace(/\.git$/, ""),
+      declared: match[2],
+    });
+  }
+  return {
+    candidate: {
+      technology: "swift",
+      packageManager: "swiftpm",
+      manifest: "Package.swift",
+      evidence: "Package.swift",
+    },
+    dependencies,
+  };
+}
+
+function recommendNextCall(
+  technology: InstallTechnology | undefined,
+  dependencies: OpenFeatureDependency[],
+  providers: string[]
+): ProjectDetection["recommendedNextCall"] {
+  if (!technology) {
+    return undefined;
+  }
+  const hasSdk = dependencies.some((dep) => dep.kind === "sdk");
+  return {
+    tool: "install_openfeature_sdk",
+    arguments: { technology, providers },
+    reason: hasSdk
+      ? "The OpenFeature SDK is already installed; the guide shows how to finish provider setup and use the SDK."
+      : "The OpenFeature SDK is not installed yet.",
+  };
+}
+
+/**
+ * Inspects the manifests in a project directory to find its OpenFeature
+ * install technology, package manager and any OpenFeature packages already
+ * installed. Manifests are checked in a fixed order and the first match wins;
+ * the others are reported as candidates.
+ */
+export async function detectProject(
+  directory: string
+): Promise<ProjectDetection> {
+  const dir = resolve(directory);
+  const files = new Set(await readdir(dir));
+
+  const results = (
+    await Promise.all([
+      detectNode(dir, files),
+      detectGo(dir),
+      detectMaven(dir),
+      detectGradle(dir, files),
+      detectDotnet(dir, files),
+      detectPython(dir, files),
+      detectRuby(dir),
+      detectPhp(dir),
+      detectSwift(dir),
+    ])
+  ).filter((result): result is ManifestResult => result !== undefined);
+
+  const openFeatureDependencies = results.flatMap(
+    ({ candidate, dependencies }) =>
+      dependencies
+        .filter(
+          (dep, index) =>
+            OPENFEATURE_PATTERN.test(dep.name) &&
+            dependencies.findIndex((other) => other.name === dep.name) === index
+        )
+        .map((dep) => ({
+          name: dep.name,
+          kind: classify(dep.name),
+          ...(dep.declared ? { declared: dep.declared } : {}),
+          ...(dep.installed ? { installed: dep.installed } : {}),
+          manifest: candidate.manifest,
+        }))
+  );
+  const providers = [
+    ...new Set(openFeatureDependencies.flatMap((dep) => providersIn(dep.name))),
+  ];
+
+  const primary = results[0]?.candidate;
+  const notes: string[] = [];
+  if (!primary) {
+    notes.push(
+      `No supported manifest found in ${dir}. Pass the directory that contains package.json, go.mod, pom.xml, build.gradle, *.csproj, requirements.txt/pyproject.toml, Gemfile, composer.json or Package.swift.`
+    );
+  } else if (results.length > 1) {
+    notes.push(
+      `Multiple manifests found; using ${primary.manifest}. Pass a subdirectory to target another part of the project.`
+    );
+  }
+
+  return {
+    directory: dir,
+    ...(primary
+      ? {
+          technology: primary.technology,
+          packageManager: primary.packageManager,
+        }
+      : {}),
+    candidates: results.map((result) => result.candidate),
+    openFeatureDependencies,
+    providers,
+    recommendedNextCall: recommendNextCall(
+      primary?.technology,
+      openFeatureDependencies,
+      providers
+    ),
+    notes,
+  };
+}
@@ -0,0 +1,320 @@
+import { basename } from "node:path";
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RegisterToolWithErrorHandling } from "../server.js";
+import { detectProject } from "./projectDetection.js";
+import { verifyInstallation } from "./installVerification.js";
+import { crossCheckUsages, scanFlagUsage } from "./flagUsage.js";
+import { findStaleFlags, type ContextEvaluation } from "./staleFlags.js";
+import {
+  flagSpecsFromEvaluation,
+  flagSpecsFromFlagFile,
+  generateFlagAccessors,
+} from "./flagCodegen.js";
+import { readFlagFile } from "../localFlags.js";
+import { installTechnologySchema, providersSchema } from "../catalog.js";
+import { InstallTechnologySchema } from "./promptsBundle.generated.js";
+import { resolveConfig } from "./ofrepConfig.js";
+import { fetchBulkEvaluation } from "./ofrepClient.js";
+import {
+  AuthSchema,
+  BaseUrlSchema,
+  ContextPresetSchema,
+  EnvironmentNameSchema,
+  EvaluationContextSchema,
+} from "./ofrepArgs.js";
+
+const DetectProjectArgsSchema = z.object({
+  directory: z
+    .string()
+    .min(1)
+    .describe(
+      "Path of the project directory to inspect (absolute, or relative to the server's working directory)."
+    ),
+});
+
+function verifyInstallArgsSchema() {
+  return z.object({
+    directory: z
+      .string()
+      .min(1)
+      .describe(
+        "Path of the project directory to verify (absolute, or relative to the server's working directory)."
+      ),
+    technology: installTechnologySchema()
+      .optional()
+      .describe(
+        "Technology passed to install_openfeature_sdk. Defaults to the detected technology."
+      ),
+    providers: providersSchema()
+      .optional()
+      .default([])
+      .describe("Providers that should be installed"),
+  });
+}
+
+const ScanFlagUsageArgsSchema = z.object({
+  directory: z
+    .string()
+    .min(1)
+    .describe(
+      "Path of the source tree to scan (absolute, or relative to the server's working directory)."
+    ),
+  cross_check: z
+    .boolean()
+    .optional()
+    .describe(
+      "Compare the call sites with a bulk OFREP evaluation. Defaults to cross-checking when a flag service is configured; set to true to fail if the evaluation fails, or false to skip it."
+    ),
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  context_preset: ContextPresetSchema.optional(),
+  context: EvaluationContextSchema.optional().describe(
+    "Context for the bulk evaluation, merged over the environment's default context"
+  ),
+  auth: AuthSchema.optional(),
+});
+
+const FindStaleFlagsArgsSchema = z.object({
+  directory: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Source tree to scan for call sites of the stale flags. Without it, removal plans have no call sites."
+    ),
+  contexts: z
+    .array(EvaluationContextSchema)
+    .min(1)
+    .max(20)
+    .optional()
+    .describe(
+      "Sample evaluation contexts (e.g. several users or tenants), each merged over the environment's default context. A flag that serves the same variant to every context counts as rolled out. Defaults to the environment's default context only."
+    ),
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  context_preset: ContextPresetSchema.optional(),
+  auth: AuthSchema.optional(),
+});
+
+const GenerateAccessorsArgsSchema = z.object({
+  technology: InstallTechnologySchema.describe(
+    "Technology to generate accessors for, as for install_openfeature_sdk."
+  ),
+  flags_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Path of a flagd-style flag file to read the flags from. Without it, the flags come from a bulk OFREP evaluation."
+    ),
+  base_url: BaseUrlSchema.optional(),
+  environment: EnvironmentNameSchema.optional(),
+  context_preset: ContextPresetSchema.optional(),
+  context: EvaluationContextSchema.optional().describe(
+    "Context for the bulk evaluation, merged over the environment's default context"
+  ),
+  auth: AuthSchema.optional(),
+});
+
+export function registerProjectTools(
+  registerToolWithErrorHandling: RegisterToolWithErrorHandling
+): void {
+  registerToolWithErrorHandling(
+    "detect_openfeature_project",
+    {
+      description: [
+        "Detect a project's technology before calling install_openfeature_sdk.",
+        "Inspects package.json, go.mod, pom.xml/build.gradle, *.csproj, requirements.txt/pyproject.toml, Gemfile, composer.json and Package.swift.",
+        "Returns the matching install technology (e.g. react or nestjs rather than javascript), the package manager,",
+        "OpenFeature SDK and provider packages already installed with their versions, and the recommended next tool call.",
+      ].join(" "),
+      annotations: {
+        title: "Detect OpenFeature Project",
+        readOnlyHint: true,
+      },
+      inputSchema: DetectProjectArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { directory } = DetectProjectArgsSchema.parse(args);
+      const detection = await detectProject(directory);
+      return {
+        content: [{ type: "text", text: JSON.stringify(detection) }],
+      };
+    }
+  );
+  const VerifyInstallArgsSchema = verifyInstallArgsSchema();
+  registerToolWithErrorHandling(
+    "verify_openfeature_install",
+    {
+      description: [
+        "Verify an OpenFeature installation after following install_openfeature_sdk.",
+        "Checks that the SDK and provider packages are in the manifest and lockfile, that a provider is registered in the source,",
+        "and looks for common mistakes such as setProviderAndWait without await or a React app without an OpenFeatureProvider.",
+        "Returns a pass/fail checklist with the locations and fixes for failed checks.",
+      ].join(" "),
+      annotations: {
+        title: "Verify OpenFeature Installation",
+        readOnlyHint: true,
+      },
+      inputSchema: VerifyInstallArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const { directory, technology, providers } =
+        VerifyInstallArgsSchema.parse(args);
+      const verification = await verifyInstallation(
+        directory,
+        technology,
+        providers
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(verification) }],
+      };
+    }
+  );
+  registerToolWithErrorHandling(
+    "scan_flag_usage",
+    {
+      description: [
+        "Find OpenFeature flag evaluation calls in a codebase (getBooleanValue, GetStringValueAsync, get_boolean_value, useFlag, etc.).",
+        "Reports each call site with its flag key, value type, default value and file:line.",
+        "When a flag service is configured, cross-checks the call sites with a bulk ofrep_flag_eval result",
+        "to find keys missing from the service, type mismatches and flags that are defined but never referenced.",
+      ].join(" "),
+      annotations: {
+        title: "Scan Flag Usage",
+        readOnlyHint: true,
+      },
+      inputSchema: ScanFlagUsageArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = ScanFlagUsageArgsSchema.parse(args);
+      const scan = await scanFlagUsage(parsed.directory);
+      if (parsed.cross_check === false) {
+        return { content: [{ type: "text", text: JSON.stringify({ scan }) }] };
+      }
+
+      let crossCheck;
+      try {
+        const cfg = await resolveConfig(parsed);
+        const { flags } = await fetchBulkEvaluation(
+          cfg,
+          { ...cfg.context, ...parsed.context },
+          cfg.environment ?? cfg.baseUrl
+        );
+        crossCheck = crossCheckUsages(scan.usages, flags);
+      } catch (error) {
+        if (parsed.cross_check) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        crossCheck = {
+          skipped: `No cross-check with the flag service: ${message}`,
+        };
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify({ scan, crossCheck }) }],
+      };
+    }
+  );
+  registerToolWithErrorHandling(
+    "find_stale_flags",
+    {
+      description: [
+        "Find flags that look fully rolled out and plan their removal.",
+        "Runs a bulk OFREP evaluation for each sample context and reports flags with a STATIC reason,",
+        "a single variant for every context, or metadata marking them deprecated.",
+        "With a directory, each removal plan lists the call sites to inline and the fallback branch to delete.",
+      ].join(" "),
+      annotations: {
+        title: "Find Stale Flags",
+        readOnlyHint: true,
+      },
+      inputSchema: FindStaleFlagsArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = FindStaleFlagsArgsSchema.parse(args);
+      const cfg = await resolveConfig(parsed);
+      const label = cfg.environment ?? cfg.baseUrl;
+      const contexts = parsed.contexts ?? [{}];
+
+      const evaluations: ContextEvaluation[] = [];
+      for (const [index, context] of contexts.entries()) {
+        const contextLabel =
+          contexts.length > 1
+            ? `${label} #${index + 1}${
+                context.targetingKey ? ` (${context.targetingKey})` : ""
+              }`
+            : label;
+        const { flags } = await fetchBulkEvaluation(
+          cfg,
+          { ...cfg.context, ...context },
+          contextLabel
+        );
+        evaluations.push({ label: contextLabel, flags });
+      }
+
+      const scan = parsed.directory
+        ? await scanFlagUsage(parsed.directory)
+        : undefined;
+      const report = findStaleFlags(evaluations, scan?.usages);
+      return {
+        content: [{ type: "text", text: JSON.stringify(report) }],
+      };
+    }
+  );
+  registerToolWithErrorHandling(
+    "generate_flag_accessors",
+    {
+      description: [
+        "Generate strongly typed flag accessors for a technology from the live flag set or a local flag file,",
+        "e.g. a TypeScript module with getNewCheckoutEnabled(client, context): Promise<boolean>, Go constants and helpers, or a Python enum and functions.",
+        "Value types are inferred from the flag values. Returns the code and a suggested file name.",
+      ].join(" "),
+      annotations: {
+        title: "Generate Flag Accessors",
+        readOnlyHint: true,
+      },
+      inputSchema: GenerateAccessorsArgsSchema.shape,
+    },
+    async (args: unknown): Promise<CallToolResult> => {
+      const parsed = GenerateAccessorsArgsSchema.parse(args);
+
+      let source: string;
+      let flags;
+      const notes: string[] = [];
+      if (parsed.flags_path) {
+        source = basename(parsed.flags_path);
+        flags = flagSpecsFromFlagFile(await readFlagFile(parsed.flags_path));
+      } else {
+        const cfg = await resolveConfig(parsed);
+        source = cfg.environment
+          ? `the '${cfg.environment}' environment`
+          : cfg.baseUrl;
+        const evaluation = await fetchBulkEvaluation(
+          cfg,
+          { ...cfg.context, ...parsed.context },
+          cfg.environment ?? cfg.baseUrl
+        );
+        flags = flagSpecsFromEvaluation(evaluation.flags);
+        notes.push(
+          "Types and default values come from one evaluation: a number flag is an integer only if its current value is whole, and the defaults are the values served now. Use flags_path with a flag file for exact types."
+        );
+      }
+
+      const generated = generateFlagAccessors(
+        parsed.technology,
+        flags.specs,
+        source
+      );
+      const result = {
+        ...generated,
+        ...(flags.skipped.length > 0 ? { skipped: flags.skipped } : {}),
+        notes,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }
+  );
+}
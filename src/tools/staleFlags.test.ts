@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { scanSource } from "./flagUsage.js";
+import { findStaleFlags } from "./staleFlags.js";
+
+describe("findStaleFlags", () => {
+  const usages = scanSource(
+    [
+      'if (client.getBooleanValue("new-checkout", false)) {',
+      "  renderNewCheckout();",
+      "} else {",
+      "  renderLegacyCheckout();",
+      "}",
+      'const theme = client.getStringValue("theme", "light");',
+      "client.getBooleanValue(flagKey, false);",
+    ].join("\n"),
+    "src/app.ts"
+  );
+
+  it("should report STATIC and single-variant flags with a removal plan", () => {
+    const report = findStaleFlags(
+      [
+        {
+          label: "alice",
+          flags: [
+            { key: "new-checkout", value: true, reason: "STATIC" },
+            { key: "theme", value: "dark", variant: "dark", reason: "SPLIT" },
+            { key: "beta", value: true, reason: "TARGETING_MATCH" },
+          ],
+        },
+        {
+          label: "bob",
+          flags: [
+            { key: "new-checkout", value: true, reason: "STATIC" },
+            { key: "theme", value: "dark", variant: "dark", reason: "SPLIT" },
+            { key: "beta", value: false, reason: "DEFAULT" },
+          ],
+        },
+      ],
+      usages
+    );
+
+    expect(report.staleFlags.map((flag) => flag.key)).toEqual([
+      "new-checkout",
+      "theme",
+    ]);
+    expect(report.staleFlags[0]).toMatchObject({
+      signals: ["static", "single_variant"],
+      plan: {
+        inlineValue: true,
+        callSites: [
+          {
+            location: "src/app.ts:1",
+            method: "getBooleanValue",
+            defaultValue: false,
+          },
+        ],
+      },
+    });
+    expect(report.staleFlags[0].plan.callSites[0].action).toContain(
+      "delete the false branch"
+    );
+    expect(report.staleFlags[1]).toMatchObject({
+      signals: ["single_variant"],
+      variant: "dark",
+      plan: { inlineValue: "dark" },
+    });
+    expect(report.notes[0]).toContain("src/app.ts:7");
+  });
+
+  it("should report deprecated flags even when contexts disagree", () => {
+    const report = findStaleFlags([
+      {
+        label: "alice",
+        flags: [
+          {
+            key: "legacy-search",
+            value: true,
+            reason: "TARGETING_MATCH",
+            metadata: { status: "Deprecated" },
+          },
+        ],
+      },
+      {
+        label: "bob",
+        flags: [
+          {
+            key: "legacy-search",
+            value: false,
+            reason: "DEFAULT",
+            metadata: { status: "Deprecated" },
+          },
+        ],
+      },
+    ]);
+
+    expect(report.staleFlags).toHaveLength(1);
+    expect(report.staleFlags[0].signals).toEqual(["deprecated"]);
+    expect(report.staleFlags[0].plan.inlineValue).toBeUndefined();
+    expect(report.staleFlags[0].plan.steps[0]).toContain("scan_flag_usage");
+  });
+
+  it("should skip flags that fail to evaluate and note a single context", () => {
+    const report = findStaleFlags([
+      {
+        label: "default",
+        flags: [
+          { key: "broken", errorCode: "PARSE_ERROR" },
+          { key: "kill-switch", value: false, reason: "STATIC" },
+        ],
+      },
+    ]);
+
+    expect(report).toMatchObject({
+      contexts: ["default"],
+      evaluatedFlags: 2,
+      staleFlags: [{ key: "kill-switch", signals: ["static"] }],
+    });
+    expect(report.notes[0]).toContain("Only one context was evaluated");
+  });
+});
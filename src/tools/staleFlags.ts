@@ -0,0 +1,232 @@
+import type { FlagUsage } from "./flagUsage.js";
+import { stableStringify } from "./ofrepDiff.js";
+import type { BulkFlagEvaluation, EvaluationSuccess } from "./ofrepSchemas.js";
+
+export type StaleSignal = "static" | "single_variant" | "deprecated";
+
+/**
+ * A bulk evaluation for one sample context.
+ */
+export type ContextEvaluation = {
+  label: string;
+  flags: BulkFlagEvaluation[];
+};
+
+export type CallSiteAction = {
+  location: string;
+  method: string;
+  defaultValue?: unknown;
+  action: string;
+};
+
+export type RemovalPlan = {
+  /** Value to inline, when every sample context agrees on it. */
+  inlineValue?: unknown;
+  callSites: CallSiteAction[];
+  steps: string[];
+};
+
+export type StaleFlag = {
+  key: string;
+  signals: StaleSignal[];
+  evidence: string[];
+  variant?: string;
+  plan: RemovalPlan;
+};
+
+export type StaleFlagReport = {
+  contexts: string[];
+  evaluatedFlags: number;
+  staleFlags: StaleFlag[];
+  notes: string[];
+};
+
+const DEPRECATED_KEYS = ["deprecated", "stale", "archived"];
+const LIFECYCLE_KEYS = ["status", "lifecycle", "state"];
+const DEPRECATED_STATES = ["deprecated", "stale", "archived", "retired"];
+
+/**
+ * Reads flag metadata that marks a flag for removal, e.g. `deprecated: true`
+ * or `status: "deprecated"`. Returns the matching metadata entry.
+ */
+function deprecationEntry(
+  metadata: Record<string, unknown> | undefined
+): string | undefined {
+  for (const [name, value] of Object.entries(metadata ?? {})) {
+    const key = name.toLowerCase();
+    if (
+      DEPRECATED_KEYS.includes(key) &&
+      (value === true || String(value).toLowerCase() === "true")
+    ) {
+      return `${name}: ${JSON.stringify(value)}`;
+    }
+    if (
+      LIFECYCLE_KEYS.includes(key) &&
+      DEPRECATED_STATES.includes(String(value).toLowerCase())
+    ) {
+      return `${name}: ${JSON.stringify(value)}`;
+    }
+  }
+  return undefined;
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function callSiteAction(usage: FlagUsage, value: unknown): CallSiteAction {
+  const action =
+    value === undefined
+      ? `Choose the value to keep, replace ${usage.method}(...) with it and delete the code for the other values`
+      : typeof value === "boolean"
+      ? `Replace ${
+          usage.method
+        }(...) with ${value}, keep the code for ${value} and delete the ${!value} branch`
+      : `Replace ${usage.method}(...) with ${describeValue(
+          value
+        )} and delete the code that handles other values`;
+  return {
+    location: usage.location,
+    method: usage.method,
+    ...("defaultValue" in usage ? { defaultValue: usage.defaultValue } : {}),
+    action,
+  };
+}
+
+function removalPlan(
+  key: string,
+  inlineValue: unknown,
+  usages: FlagUsage[] | undefined
+): RemovalPlan {
+  const callSites = (usages ?? [])
+    .filter((usage) => usage.key === key)
+    .map((usage) => callSiteAction(usage, inlineValue));
+
+  const steps: string[] = [];
+  if (usages === undefined) {
+    steps.push(
+      `Find the evaluations of '${key}' in code (scan_flag_usage) and inline the rolled-out value`
+    );
+  } else if (callSites.length === 0) {
+    steps.push(`No call sites reference '${key}' in the scanned code`);
+  } else {
+    steps.push(
+      `Inline ${
+        inlineValue === undefined
+          ? "the chosen value"
+          : describeValue(inlineValue)
+      } at ${callSites.length} call site(s) and delete the fallback branches`,
+      "Remove imports, constants and tests that only exist for this flag"
+    );
+  }
+  steps.push(
+    `Once the change is deployed, archive or delete '${key}' in the flag service`
+  );
+  return {
+    ...(inlineValue !== undefined ? { inlineValue } : {}),
+    callSites,
+    steps,
+  };
+}
+
+/**
+ * Finds flags that look fully rolled out across a set of sample contexts:
+ * every evaluation has the STATIC reason, every context gets the same variant
+ * and value, or the flag metadata marks it deprecated. Flags that fail to
+ * evaluate in any context are skipped unless they are marked deprecated.
+ *
+ * When `usages` from a code scan are given, each removal plan lists the call
+ * sites to inline.
+ */
+export function findStaleFlags(
+  evaluations: ContextEvaluation[],
+  usages?: FlagUsage[]
+): StaleFlagReport {
+  const byKey = new Map<string, BulkFlagEvaluation[]>();
+  for (const { flags } of evaluations) {
+    for (const flag of flags) {
+      byKey.set(flag.key, [...(byKey.get(flag.key) ?? []), flag]);
+    }
+  }
+
+  const staleFlags: StaleFlag[] = [];
+  for (const key of [...byKey.keys()].sort()) {
+    const results = byKey.get(key) as BulkFlagEvaluation[];
+    const successes = results.filter(
+      (flag): flag is EvaluationSuccess => !("errorCode" in flag)
+    );
+    const complete =
+      successes.length === results.length &&
+      results.length === evaluations.length;
+
+    const signals: StaleSignal[] = [];
+    const evidence: string[] = [];
+
+    if (complete && successes.every((flag) => flag.reason === "STATIC")) {
+      signals.push("static");
+      evidence.push(
+        `Reason is STATIC in ${successes.length} of ${evaluations.length} context(s)`
+      );
+    }
+
+    const values = new Set(
+      successes.map((flag) => stableStringify(flag.value))
+    );
+    const variants = new Set(successes.map((flag) => flag.variant));
+    const uniform = complete && values.size === 1 && variants.size === 1;
+    if (uniform && evaluations.length > 1) {
+      signals.push("single_variant");
+      const variant = successes[0].variant;
+      evidence.push(
+        `All ${evaluations.length} contexts get ${
+          variant !== undefined ? `variant '${variant}' with ` : ""
+        }value ${describeValue(successes[0].value)}`
+      );
+    }
+
+    const deprecation = results
+      .map((flag) => deprecationEntry(flag.metadata))
+      .find((entry) => entry !== undefined);
+    if (deprecation) {
+      signals.push("deprecated");
+      evidence.push(`Metadata marks the flag deprecated (${deprecation})`);
+    }
+
+    if (signals.length === 0) {
+      continue;
+    }
+    staleFlags.push({
+      key,
+      signals,
+      evidence,
+      ...(uniform && successes[0].variant !== undefined
+        ? { variant: successes[0].variant }
+        : {}),
+      plan: removalPlan(key, uniform ? successes[0].value : undefined, usages),
+    });
+  }
+
+  const notes: string[] = [];
+  if (evaluations.length === 1) {
+    notes.push(
+      "Only one context was evaluated, so the single_variant signal was not checked. Pass several sample contexts to find flags that serve one variant to everyone."
+    );
+  }
+  const dynamic = (usages ?? []).filter((usage) => usage.key === undefined);
+  if (dynamic.length > 0 && staleFlags.length > 0) {
+    notes.push(
+      `${
+        dynamic.length
+      } call site(s) use a non-literal flag key and may evaluate a stale flag too: ${dynamic
+        .map((usage) => usage.location)
+        .join(", ")}`
+    );
+  }
+
+  return {
+    contexts: evaluations.map((evaluation) => evaluation.label),
+    evaluatedFlags: byKey.size,
+    staleFlags,
+    notes,
+  };
+}